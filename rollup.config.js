@@ -3,7 +3,7 @@ import typescript from '@rollup/plugin-typescript';
 import commonjs from '@rollup/plugin-commonjs';
 
 export default {
-    input: 'src/index.ts',
+    input: ['src/index.ts', 'src/testing.ts'],
     output: {
         format: 'cjs',
         dir: 'lib',
@@ -0,0 +1,94 @@
+import globals from './globals';
+
+type AbortListener = (event: {type: string}) => void;
+
+/**
+ * The part of `AbortSignal` that Reback relies on and that is also provided where the platform has no `AbortSignal`.
+ */
+export interface AbortSignalLike {
+    readonly aborted: boolean;
+
+    /**
+     * Reason given when aborting (by default, an error named `AbortError`), or `undefined` while not aborted.
+     */
+    readonly reason?: any;
+
+    addEventListener(type: 'abort', listener: AbortListener): void;
+    removeEventListener(type: 'abort', listener: AbortListener): void;
+}
+
+export interface AbortControllerLike {
+    readonly signal: AbortSignalLike;
+    abort(): void;
+}
+
+/**
+ * Minimal stand-in for `AbortSignal`, used where the platform does not provide one.
+ * It supports the part of the API that preparations typically use:
+ * `aborted`, `reason`, `onabort`, and `addEventListener`/`removeEventListener` for the `abort` event.
+ */
+class FallbackAbortSignal implements AbortSignalLike {
+    aborted: boolean;
+    reason: any;
+    onabort: AbortListener | null;
+    listeners: AbortListener[];
+
+    constructor() {
+        this.aborted = false;
+        this.reason = undefined;
+        this.onabort = null;
+        this.listeners = [];
+    }
+
+    addEventListener(type: string, listener: AbortListener) {
+        if (type === 'abort') {
+            this.listeners.push(listener);
+        }
+    }
+
+    removeEventListener(type: string, listener: AbortListener) {
+        if (type === 'abort') {
+            this.listeners = this.listeners.filter(l => l !== listener);
+        }
+    }
+
+    dispatchAbort() {
+        if (this.aborted) {
+            return;
+        }
+        this.aborted = true;
+        const reason = new Error('The operation was aborted');
+        reason.name = 'AbortError';
+        this.reason = reason;
+        const event = {type: 'abort'};
+        if (this.onabort) {
+            this.onabort.call(this, event);
+        }
+        this.listeners.slice().forEach(listener => {
+            listener.call(this, event);
+        });
+    }
+}
+
+class FallbackAbortController implements AbortControllerLike {
+    signal: FallbackAbortSignal;
+
+    constructor() {
+        this.signal = new FallbackAbortSignal();
+    }
+
+    abort() {
+        this.signal.dispatchAbort();
+    }
+}
+
+/**
+ * Creates an `AbortController`, falling back to a minimal implementation
+ * if the platform does not provide one.
+ */
+export default function createAbortController(): AbortControllerLike {
+    if (globals.AbortController) {
+        return new globals.AbortController();
+    }
+    return new FallbackAbortController();
+}
@@ -1,6 +1,6 @@
 /*eslint no-underscore-dangle: "off", react/no-is-mounted: "off" */
 
-import globals, {now, DEBUG, DEBUG_REBACK, PROFILE_REBACK, TESTING} from './globals';
+import globals, {now, DEBUG, DEBUG_REBACK, PROFILE_REBACK} from './globals';
 
 import {getLogger} from 'loggers-js';
 
@@ -8,24 +8,69 @@ import SyncPromise from 'sync-promise-js';
 
 import PromiseChain from './PromiseChain';
 import RenderPending from './RenderPending';
-import {sameShallow, applyModificationsCached, compareMaps, d} from './util';
+import {sameShallow, sameDependencies, sameValueZero, applyModificationsCached, compareMaps, d} from './util';
 import {start as startTiming, end as stopTiming} from './profiling';
 import Cache from './Cache';
 import HashCache from './HashCache';
 import emptyContext from './EmptyContext';
 import {addUsedContextAttributes, anyUsedAttribute} from './Context';
 import SingleEntryCache from './SingleEntryCache';
-
+import createAbortController from './AbortController';
+import {
+    FlushDuringRenderError,
+    InitializationError,
+    PrepareTimeoutError,
+    RenderLoopError,
+    RenderOutsidePassError,
+    RepeatedRenderError,
+    StateWaitTimeoutError
+} from './errors';
+import {defaultScheduler, FunctionScheduler, NEXT_FRAME, Priority} from './Scheduler';
+
+import type {AbortControllerLike, AbortSignalLike} from './AbortController';
 import type Context from './Context';
+import type {Scheduler, PriorityLevel} from './Scheduler';
 
 const logger = getLogger('reback');
 
+const TASK_DEFERRED = 0;
+const TASK_SCHEDULED = 1;
+const TASK_DONE = 2;
+
 /**
- * ID for a scheduled task, which could be regular timeout or a requested animation frame (or both, theoretically).
- * This ID can be used to cancel the task.
- * A value of 0 in either slot means that the respective type of scheduling has not been used.
+ * A task to be run by a `Scheduler`.
+ * The task remembers its scheduler so that it can be cancelled with it later
+ * (even if the scheduler used for a root component changes in the meanwhile).
  */
-type ScheduleID = [ReturnType<typeof setTimeout> | 0, ReturnType<typeof requestAnimationFrame> | 0];
+type ScheduledTask = {
+    /**
+     * What the task does (used for diagnostics), e.g. "render request".
+     */
+    description: string;
+
+    /**
+     * Component the task is about, e.g. the root component whose render was requested (used for diagnostics).
+     */
+    target: AnyComponent | null;
+
+    scheduler: Scheduler;
+    func: () => void;
+    delay: number;
+    priority: PriorityLevel;
+    id: unknown;
+
+    /**
+     * Whether this is a timer guarding or delaying other work (e.g. the timeout of a preparation),
+     * which `runPendingTasks` only runs once no other tasks are pending.
+     */
+    isTimer: boolean;
+
+    /**
+     * One of `TASK_DEFERRED` (waiting for the current render pass to finish before it is handed to the scheduler),
+     * `TASK_SCHEDULED`, or `TASK_DONE` (which includes cancelled tasks).
+     */
+    state: number;
+};
 
 /**
  * Time (in milliseconds) to wait before firing a render request on a root component.
@@ -34,7 +79,7 @@ type ScheduleID = [ReturnType<typeof setTimeout> | 0, ReturnType<typeof requestA
  * A value of -1 means to wait for the next animation frame if the page is visible,
  * or use a timeout of 100 ms if the page is hidden.
  */
-const RENDER_BATCH_TIME = -1;
+const RENDER_BATCH_TIME = NEXT_FRAME;
 
 const EMPTY_SET: ReadonlySet<any> = new Set();
 
@@ -64,6 +109,9 @@ const FLAG_NEEDS_RENDER_AFTER_RENDER = 1 << (FLAGS_OFFSET + 4);
 const FLAG_NEEDS_PREPARE_AFTER_PREPARE = 1 << (FLAGS_OFFSET + 5);
 const FLAG_ERROR_DURING_INITIALIZE = 1 << (FLAGS_OFFSET + 6);
 const FLAG_RENDER_ROOT_WAS_INTERRUPTED = 1 << (FLAGS_OFFSET + 7);
+const FLAG_HAS_PENDING_EFFECTS = 1 << (FLAGS_OFFSET + 8);
+const FLAG_DISAPPEARED = 1 << (FLAGS_OFFSET + 9);
+const FLAG_SHOWING_STALE_RESULT = 1 << (FLAGS_OFFSET + 10);
 
 function setPhaseFlags(flags: number, phase: number): number {
     return (flags & ~MASK_PHASE) | phase;
@@ -74,6 +122,12 @@ function setPhaseFlags(flags: number, phase: number): number {
  */
 const RENDER_INTERRUPT = {};
 
+/**
+ * Maximum number of times a component is rendered again within a render pass because it requested to be rendered
+ * while it was rendering, before a `RenderLoopError` is thrown.
+ */
+const MAX_RENDER_RECURSION = 10;
+
 let idCounter = 0;
 
 export type AnyComponent = Component<any, any, any, any, any>;
@@ -228,7 +282,15 @@ function didContextChange(
     });
 }
 
-type InterruptedItem = {root: AnyComponent; rootData: AnyInternalData; interrupted: AnyInternalData[]};
+type InterruptedItem = {
+    root: AnyComponent;
+    rootData: AnyInternalData;
+    interrupted: AnyInternalData[];
+    /**
+     * Task for re-rendering the interrupted components, scheduled using the root's scheduler.
+     */
+    timeout: ScheduledTask | null;
+};
 
 /**
  * Components that have been interrupted in the previous render pass,
@@ -241,24 +303,449 @@ type InterruptedItem = {root: AnyComponent; rootData: AnyInternalData; interrupt
 const interruptedComponents: Map<ID, InterruptedItem> = new Map();
 
 /**
- * Timeout for re-rendering previously interrupted components.
+ * Components that have been unmounted recently and are waiting for their `onDisappear` handler to be called,
+ * together with the task that will call those handlers.
+ */
+type DisappearQueue = {components: AnyComponent[]; timeout: ScheduledTask | null};
+
+/**
+ * Queues of recently unmounted components, per scheduler that is used to process them.
+ * A queue is removed once it is drained, so that schedulers are not kept alive after their last use.
  */
-let rerenderInterruptedTimeout: ScheduleID | null = null;
+const disappearQueues: Map<Scheduler, DisappearQueue> = new Map();
+
+/**
+ * Scheduler used for root components that don't specify their own scheduler.
+ */
+let globalScheduler: Scheduler = defaultScheduler;
+
+/**
+ * Tasks scheduled during the current render pass, which are handed to their schedulers when the pass is finished.
+ */
+let deferredTasks: ScheduledTask[] = [];
+
+/**
+ * All tasks that have been scheduled (or deferred) but have not run and have not been cancelled yet.
+ * This allows running them right away, e.g. in tests.
+ */
+const pendingTasks: Set<ScheduledTask> = new Set();
+
+/**
+ * Nesting depth of `Component.batch` calls.
+ */
+let batchDepth = 0;
+
+/**
+ * Components whose state changed during the current batch, mapped to the highest priority of their changes.
+ */
+const batchedComponents: Map<AnyComponent, PriorityLevel> = new Map();
+
+/**
+ * State changes of components with watchers during the current batch,
+ * mapped to the value of each changed attribute before the batch.
+ */
+const batchedStateChanges: Map<AnyComponent, Map<string, any>> = new Map();
+
+/**
+ * Components that have been forced to render while flushing a batch.
+ * This is used to avoid walking up the same ancestors more than once.
+ */
+let batchFlushVisited: Set<AnyInternalData> | null = null;
+
+/**
+ * Render requests on root components collected while flushing a batch.
+ * They are only submitted to the schedulers once all components have been visited, since schedulers may run them
+ * synchronously, and state changes made by those renders must not be mistaken for already visited ones.
+ */
+let batchFlushRootRequests: Array<[AnyComponent, AnyInternalData, PriorityLevel]> | null = null;
+
+/**
+ * Components with a pending asynchronous preparation.
+ */
+const pendingPrepares: Map<AnyInternalData, AnyComponent> = new Map();
+
+/**
+ * Timeout (in milliseconds) for preparations of components that don't override `getPrepareTimeout`,
+ * or `null` for no timeout.
+ */
+let defaultPrepareTimeout: number | null = null;
+
+export type TimedOutPrepare = {
+    component: AnyComponent;
+    timeout: number;
+
+    /**
+     * Start time of the preparation (in milliseconds after some epoch, cf. `now`).
+     */
+    startTime: number;
+};
+
+/**
+ * Components whose preparation timed out and that have not prepared again since.
+ */
+const timedOutPrepares: Map<AnyInternalData, TimedOutPrepare> = new Map();
+
+export type PrepareRetryPolicy = {
+    /**
+     * Maximum number of attempts to prepare, including the first one.
+     */
+    maxAttempts: number;
+
+    /**
+     * Delay (in milliseconds) before the first retry. Defaults to 100.
+     */
+    initialDelay?: number;
+
+    /**
+     * Factor by which the delay grows with each further retry. Defaults to 2.
+     */
+    backoffFactor?: number;
+
+    /**
+     * Maximum delay (in milliseconds) between attempts. Defaults to no maximum.
+     */
+    maxDelay?: number;
+
+    /**
+     * Determines whether a failed attempt should be retried. Defaults to retrying any error.
+     * @param error The error of the failed attempt.
+     * @param attempt The number of the failed attempt, starting at 1.
+     */
+    shouldRetry?: (error: any, attempt: number) => boolean;
+};
+
+const DEFAULT_RETRY_INITIAL_DELAY = 100;
+const DEFAULT_RETRY_BACKOFF_FACTOR = 2;
+
+/**
+ * A scheduled retry of a failed preparation.
+ */
+type PrepareRetry = {
+    /**
+     * Number of the attempt that is going to be made, starting at 1 for the initial attempt.
+     */
+    attempt: number;
+
+    /**
+     * Errors of the previous (failed) attempts.
+     */
+    errors: any[];
+
+    task: ScheduledTask | null;
+
+    /**
+     * Whether the retry is due, i.e. the next preparation of the component is the retry.
+     */
+    isDue: boolean;
+
+    /**
+     * Promise that is pending until the retry starts (or is cancelled), used as the component's `_prepare` meanwhile.
+     */
+    promise: SyncPromise<void>;
+};
+
+export type EffectCleanup = () => void;
+
+export type EffectOptions = {
+    /**
+     * Apart from changes of its dependencies, when to clean up the effect:
+     * when the component is unmounted (`'unmount'`), or when it disappears (`'disappear'`, the default).
+     * Effects cleaned up on disappear stay alive while a component moves from one parent to another.
+     */
+    cleanupOn?: 'unmount' | 'disappear';
+};
+
+/**
+ * Handler of state changes (see `Component#watch`).
+ * @param changed Names of the watched attributes that changed.
+ * @param values New values of the changed attributes.
+ * @param oldValues Previous values of the changed attributes.
+ */
+export type StateWatcher = (
+    changed: ReadonlySet<string>,
+    values: {[name: string]: any},
+    oldValues: {[name: string]: any}
+) => void;
+
+type Watcher = {
+    /**
+     * Names of the watched attributes, or `null` to watch all attributes.
+     */
+    names: ReadonlySet<string> | null;
+    handler: StateWatcher;
+};
+
+type Effect = {
+    deps: ReadonlyArray<any>;
+    setup: () => EffectCleanup | void;
+    cleanup: EffectCleanup | null;
+    cleanupOnUnmount: boolean;
+
+    /**
+     * Whether the effect needs to be set up (again) after the next commit.
+     */
+    needsSetup: boolean;
+};
+
+/**
+ * Declaration of a computed state attribute (see `Component.computed`): the names of the attributes it is computed
+ * from, followed by a function computing it from their values.
+ */
+export type ComputedDeclaration = ReadonlyArray<string | ((...values: any[]) => any)>;
+
+type ComputedAttribute = {
+    inputs: string[];
+    compute: (...values: any[]) => any;
+};
+
+/**
+ * Computed attributes of a component class, parsed from its `computed` declarations.
+ */
+type ComputedAttributes = {
+    attributes: Map<string, ComputedAttribute>;
+
+    /**
+     * Names of the computed attributes depending (directly or indirectly) on each attribute.
+     */
+    dependents: Map<string, string[]>;
+};
+
+function parseComputedAttributes(
+    declarations: {[name: string]: ComputedDeclaration} | void
+): ComputedAttributes | null {
+    if (!declarations) {
+        return null;
+    }
+    const attributes: Map<string, ComputedAttribute> = new Map();
+    for (const name in declarations) {
+        if (declarations.hasOwnProperty(name)) {
+            const declaration = declarations[name];
+            const compute = declaration[declaration.length - 1];
+            if (typeof compute !== 'function') {
+                throw new Error(`Computed attribute ${name} needs to be declared with a function as its last element`);
+            }
+            attributes.set(name, {inputs: declaration.slice(0, -1) as string[], compute});
+        }
+    }
+    _checkComputedCycles(attributes);
+    const dependents: Map<string, string[]> = new Map();
+    const addDependent = (input: string, name: string) => {
+        let names = dependents.get(input);
+        if (!names) {
+            names = [];
+            dependents.set(input, names);
+        }
+        if (names.indexOf(name) < 0) {
+            names.push(name);
+            // Attributes depending on the input also depend on anything the input depends on.
+            const inputAttribute = attributes.get(input);
+            if (inputAttribute) {
+                inputAttribute.inputs.forEach(inputOfInput => addDependent(inputOfInput, name));
+            }
+        }
+    };
+    attributes.forEach(({inputs}, name) => {
+        inputs.forEach(input => addDependent(input, name));
+    });
+    return {attributes, dependents};
+}
+
+/**
+ * Throws an error if any computed attribute depends (directly or indirectly) on itself.
+ */
+function _checkComputedCycles(attributes: Map<string, ComputedAttribute>) {
+    const checked: Set<string> = new Set();
+    const path: string[] = [];
+    const visit = (name: string) => {
+        const attribute = attributes.get(name);
+        if (!attribute || checked.has(name)) {
+            return;
+        }
+        const index = path.indexOf(name);
+        if (index >= 0) {
+            const cycle = path.slice(index).concat([name]).join(' -> ');
+            throw new Error(`Computed attribute ${name} depends on itself (${cycle})`);
+        }
+        path.push(name);
+        attribute.inputs.forEach(visit);
+        path.pop();
+        checked.add(name);
+    };
+    attributes.forEach((attribute, name) => visit(name));
+}
+
+function _getComputed(that: AnyComponent, data: AnyInternalData, attribute: ComputedAttribute, name: string) {
+    const uncommonData = getUncommonData(data);
+    let values = uncommonData.computedValues;
+    if (!values) {
+        values = uncommonData.computedValues = new Map();
+    }
+    const cached = values.get(name);
+    if (cached && !cached.isDirty) {
+        return cached.value;
+    }
+    const value = attribute.compute.apply(
+        that,
+        attribute.inputs.map(input => _getAttribute(that, data, input))
+    );
+    values.set(name, {value, isDirty: false});
+    return value;
+}
+
+/**
+ * Returns the value of a state attribute or of a computed attribute.
+ */
+function _getAttribute(that: AnyComponent, data: AnyInternalData, name: string) {
+    const computed = data.methods.computed;
+    const attribute = computed ? computed.attributes.get(name) : undefined;
+    if (attribute) {
+        return _getComputed(that, data, attribute, name);
+    }
+    return that.state[name];
+}
+
+/**
+ * Marks the given computed attributes as dirty, so that they are recomputed the next time they are read.
+ */
+function _invalidateComputed(data: AnyInternalData, names: Set<string>) {
+    const values = data.uncommonData ? data.uncommonData.computedValues : null;
+    if (values) {
+        names.forEach(name => {
+            const cached = values.get(name);
+            if (cached) {
+                cached.isDirty = true;
+            }
+        });
+    }
+}
+
+/**
+ * Memoized value of a component (see `Component#memo`).
+ */
+type Memo = {
+    /**
+     * Dependencies the value was computed from, or `null` if the value has been cleared.
+     */
+    deps: ReadonlyArray<any> | null;
+    value: any;
+    hits: number;
+    misses: number;
+};
+
+/**
+ * Resource that can be owned by a component (see `Component#ownResource`):
+ * either a function that disposes the resource, or an object with a `dispose` method.
+ */
+export type Disposable = (() => void) | {dispose(): void};
+
+/**
+ * Source of values that can be subscribed to (see `Component#ownSubscription`),
+ * returning either a function to unsubscribe or an object with an `unsubscribe` method.
+ */
+export type Subscribable<T> = {
+    subscribe(handler: (value: T) => void): (() => void) | {unsubscribe(): void};
+};
+
+type OwnedResource = {description: string; dispose: () => void};
+
+type CommitEntry = {
+    component: AnyComponent;
+    renderResult: any;
+    prevRenderResult: any;
+    isCached: boolean;
+};
+
+/**
+ * Components that have been rendered (or reused a cached render result) in the current render pass
+ * and whose `onRendered` or `onCommit` hook should be called when the outermost render pass is finished.
+ * Since components finish rendering after their children, this is in bottom-up order.
+ */
+let commitQueue: Map<AnyInternalData, CommitEntry> = new Map();
+
+/**
+ * Components with keyed children (see `Component#child`) that have been rendered freshly in the current render pass,
+ * whose unused keyed children are released when the outermost render pass is finished.
+ */
+let keyedChildrenReleaseQueue: Set<AnyInternalData> = new Set();
+
+/**
+ * Reference to a mounted root component. Where `WeakRef` is available, roots are held weakly,
+ * so that roots which are dropped without calling `unrenderRoot` can still be garbage-collected.
+ */
+type RootRef = {deref(): AnyComponent | undefined};
+
+export type RootListener = {
+    onMount?: (root: AnyComponent) => void;
+    onUnmount?: (root: AnyComponent) => void;
+};
+
+/**
+ * Mounted root components, by their ID (in the order in which they were mounted).
+ */
+const mountedRoots: Map<ID, RootRef> = new Map();
+
+const rootListeners: Set<RootListener> = new Set();
+
+export type RenderPassStartInfo = {
+    root: AnyComponent;
+
+    /**
+     * Start time of the render pass (in milliseconds after some epoch).
+     */
+    startTime: number;
+
+    /**
+     * Number of interrupted render passes of the root before this render pass.
+     */
+    interruptGeneration: number;
+};
+
+export type RenderPassEndInfo = RenderPassStartInfo & {
+    /**
+     * Duration of the render pass (in milliseconds).
+     */
+    duration: number;
+
+    /**
+     * Number of non-interrupted components rendered in the render pass.
+     */
+    renderComponentCount: number;
+
+    isInterrupted: boolean;
+};
+
+export type RenderPassListener = {
+    onStart?: (info: RenderPassStartInfo) => void;
+    onEnd?: (info: RenderPassEndInfo) => void;
+};
+
+const renderPassListeners: Set<RenderPassListener> = new Set();
 
 /**
- * Components that have been unmounted recently.
+ * Handler for errors that are not handled by any component, see `Component.setUncaughtErrorHandler`.
+ * @param error The error.
+ * @param component The component in which the error happened.
+ * @param root The root of the component tree in which the error happened,
+ * or `null` if the component is not part of any mounted component tree.
  */
-const unmountedComponents: AnyComponent[] = [];
+export type UncaughtErrorHandler = (error: any, component: AnyComponent, root: AnyComponent | null) => void;
+
+let uncaughtErrorHandler: UncaughtErrorHandler | null = null;
 
 /**
- * Timeout for calling `onDisappear` on unmounted components.
+ * Components in which errors happened, as determined when annotating their component stack.
  */
-let disappearHandlersTimeout: ScheduleID | null = null;
+const errorComponents: WeakMap<object, AnyComponent> = new WeakMap();
 
 export type RenderOptions<ContextType = Context> = {
     context?: ContextType;
     isRequired?: boolean;
     isOptional?: boolean;
+
+    /**
+     * Scheduler to use for this root component (only relevant for `renderRoot`).
+     */
+    scheduler?: Scheduler;
 };
 
 type ID = number;
@@ -293,39 +780,169 @@ function allChildren(children: Children, callback: (instance: any, id: ID) => bo
     return true;
 }
 
-type SchedulerFunc = (func: () => void, delay?: number) => ScheduleID;
-type CancelScheduleFunc = (id: ScheduleID) => void;
-
-let scheduler: SchedulerFunc = (func: () => void, delay = 0): ScheduleID => {
-    if (delay === -1) {
-        // If requestAnimationFrame is not available and during testing, fall back to setTimeout
-        // (assuming ~60 fps).
-        if (globals.requestAnimationFrame && !TESTING) {
-            // If the page is hidden, requestAnimationFrame does not fire, so we use a timeout instead (see CLOUD-15123).
-            // Browsers might also throttle timeouts for background windows, but it's okay
-            // for background notebooks to load more slowly, as long as they load eventually.
-            // See https://developer.mozilla.org/en-US/docs/Web/API/Page_Visibility_API#Policies_in_place_to_aid_background_page_performance
-            // for more information.
-            if (globals.document && globals.document.hidden) {
-                return [setTimeout(func, 100), 0];
-            } else {
-                return [0, requestAnimationFrame(func)];
-            }
-        } else {
-            return [setTimeout(func, 16), 0];
+type SchedulerFunc = (func: () => void, delay?: number) => any;
+type CancelScheduleFunc = (id: any) => void;
+
+/**
+ * Schedules a function using the given scheduler.
+ * During a render pass, the task is only handed to the scheduler once the outermost render pass finishes.
+ * That way, schedulers that run tasks synchronously never re-enter a render pass.
+ * Returns `null` if the scheduler ran the function synchronously, so there is nothing left to cancel.
+ */
+function scheduleTask(
+    description: string,
+    target: AnyComponent | null,
+    scheduler: Scheduler,
+    func: () => void,
+    delay: number,
+    priority: PriorityLevel = Priority.NORMAL
+): ScheduledTask | null {
+    const task: ScheduledTask = {
+        description,
+        target,
+        scheduler,
+        func,
+        delay,
+        priority,
+        id: null,
+        isTimer: false,
+        state: TASK_DEFERRED
+    };
+    pendingTasks.add(task);
+    if (renderState.isRendering) {
+        deferredTasks.push(task);
+        return task;
+    }
+    _submitTask(task);
+    return task.state === TASK_DONE ? null : task;
+}
+
+/**
+ * Schedules a timer (see `ScheduledTask.isTimer`) using the given scheduler.
+ */
+function scheduleTimer(
+    description: string,
+    target: AnyComponent | null,
+    scheduler: Scheduler,
+    func: () => void,
+    delay: number
+): ScheduledTask | null {
+    const task = scheduleTask(description, target, scheduler, func, delay);
+    if (task) {
+        task.isTimer = true;
+    }
+    return task;
+}
+
+function _submitTask(task: ScheduledTask) {
+    task.state = TASK_SCHEDULED;
+    const id = task.scheduler.schedule(() => {
+        if (task.state === TASK_SCHEDULED) {
+            task.state = TASK_DONE;
+            pendingTasks.delete(task);
+            task.func();
         }
+    }, task.delay, task.priority);
+    if (task.state === TASK_SCHEDULED) {
+        task.id = id;
     }
-    return [setTimeout(func, delay), 0];
-};
+}
 
-let cancelSchedule: CancelScheduleFunc = ([timeoutID, animationFrameID]: ScheduleID) => {
-    if (timeoutID) {
-        clearTimeout(timeoutID);
+function _submitDeferredTasks() {
+    const tasks = deferredTasks;
+    deferredTasks = [];
+    for (let i = 0, l = tasks.length; i < l; ++i) {
+        const task = tasks[i];
+        if (task.state === TASK_DEFERRED) {
+            _submitTask(task);
+        }
     }
-    if (animationFrameID && globals.cancelAnimationFrame) {
-        cancelAnimationFrame(animationFrameID);
+}
+
+function cancelTask(task: ScheduledTask) {
+    if (task.state === TASK_SCHEDULED) {
+        task.scheduler.cancel(task.id);
     }
-};
+    task.state = TASK_DONE;
+    pendingTasks.delete(task);
+}
+
+/**
+ * Runs all currently pending scheduled tasks right away (cancelling them in their schedulers).
+ * Timers (such as timeouts of preparations) are only run if there are no other pending tasks,
+ * so that they don't fire before the work they are waiting for had a chance to finish.
+ * Tasks scheduled by those tasks are not run.
+ * This must not be called during a render pass.
+ * @returns The number of tasks that were run.
+ */
+export function runPendingTasks(): number {
+    let count = 0;
+    let tasks = Array.from(pendingTasks).filter(task => !task.isTimer);
+    if (!tasks.length) {
+        tasks = Array.from(pendingTasks);
+    }
+    for (let i = 0, l = tasks.length; i < l; ++i) {
+        const task = tasks[i];
+        if (task.state !== TASK_DONE) {
+            cancelTask(task);
+            ++count;
+            task.func();
+        }
+    }
+    return count;
+}
+
+/**
+ * Returns whether there is any pending work: scheduled tasks or pending preparations of mounted components.
+ */
+export function hasPendingWork(): boolean {
+    if (pendingTasks.size) {
+        return true;
+    }
+    for (const data of pendingPrepares.keys()) {
+        if (data.flags & FLAG_MOUNTED) {
+            return true;
+        }
+    }
+    return false;
+}
+
+/**
+ * Describes all pending work: scheduled tasks and pending preparations of mounted components.
+ * This is useful for diagnostics, e.g. in tests waiting for everything to settle.
+ */
+export function describePendingWork(): string[] {
+    const result: string[] = [];
+    pendingTasks.forEach(({description, target}) => {
+        result.push(target ? d`${description} for ${target}` : description);
+    });
+    pendingPrepares.forEach((component, data) => {
+        if (data.flags & FLAG_MOUNTED) {
+            result.push(d`preparation of ${component}`);
+        }
+    });
+    return result;
+}
+
+function getScheduler(rootData: AnyInternalData | null): Scheduler {
+    const uncommonData = rootData ? rootData.uncommonData : null;
+    const rootInfo = uncommonData ? uncommonData.rootData : null;
+    return (rootInfo && rootInfo.scheduler) || globalScheduler;
+}
+
+/**
+ * Determines the scheduler of the root component that a (still mounted) component belongs to.
+ */
+function getSchedulerForComponent(data: AnyInternalData): Scheduler {
+    let rootData = getCurrentRenderRootData();
+    if (!rootData) {
+        rootData = data;
+        while (rootData._renderParentData) {
+            rootData = rootData._renderParentData;
+        }
+    }
+    return getScheduler(rootData);
+}
 
 function _rerenderInterrupted(rootId: ID) {
     const item = interruptedComponents.get(rootId);
@@ -357,43 +974,85 @@ function _rerenderInterrupted(rootId: ID) {
                 data = parentData;
             }
         }
+        if (item.timeout) {
+            cancelTask(item.timeout);
+            item.timeout = null;
+        }
         interruptedComponents.delete(rootId);
     }
 }
 
-function rerenderAllInterrupted() {
-    if (rerenderInterruptedTimeout) {
-        cancelSchedule(rerenderInterruptedTimeout);
-        rerenderInterruptedTimeout = null;
+function _rerenderInterruptedAndRequestRender(item: InterruptedItem) {
+    const {root, rootData} = item;
+    _rerenderInterrupted(rootData._id);
+    // In addition to invalidating all respective render caches,
+    // we also schedule another render pass of the root component.
+    _forceRender(root, rootData, false);
+}
+
+function scheduleRerenderInterrupted(item: InterruptedItem) {
+    if (!item.timeout) {
+        const task = scheduleTask(
+            'interrupted components',
+            item.root,
+            getScheduler(item.rootData),
+            () => {
+                item.timeout = null;
+                if (interruptedComponents.get(item.rootData._id) === item) {
+                    _rerenderInterruptedAndRequestRender(item);
+                }
+            },
+            RENDER_BATCH_TIME
+        );
+        if (task) {
+            item.timeout = task;
+        }
     }
-    interruptedComponents.forEach((item, id) => {
-        const {root, rootData} = item;
-        _rerenderInterrupted(id);
-        // In addition to invalidating all respective render caches,
-        // we also schedule another render pass of the root component.
-        _forceRender(root, rootData, false);
-    });
 }
 
-function scheduleRerenderInterrupted() {
-    if (!rerenderInterruptedTimeout) {
-        rerenderInterruptedTimeout = scheduler(rerenderAllInterrupted, RENDER_BATCH_TIME);
+function runDisappearHandlers(scheduler: Scheduler, queue: DisappearQueue) {
+    queue.timeout = null;
+    const components = queue.components;
+    // Swap in a new list so that components unmounted by any `onDisappear` handler are queued separately.
+    queue.components = [];
+    for (let i = 0, l = components.length; i < l; ++i) {
+        const component = components[i];
+        // If the component is still not mounted on the next tick, trigger onDisappear.
+        if (!component.isMounted()) {
+            const data = component._reback;
+            // A failing handler must neither keep the component from being cleaned up
+            // nor keep the remaining components from disappearing.
+            _callHook(component, data, () => component.onDisappear());
+            _cleanupEffects(component, data, false);
+            _disposeResources(component, data);
+            data.flags |= FLAG_DISAPPEARED;
+        }
+    }
+    // Components unmounted by any `onDisappear` handler have scheduled another run of this queue.
+    if (!queue.components.length && disappearQueues.get(scheduler) === queue) {
+        disappearQueues.delete(scheduler);
     }
 }
 
-function scheduleDisappearHandlers() {
-    if (!disappearHandlersTimeout) {
-        disappearHandlersTimeout = scheduler(() => {
-            disappearHandlersTimeout = null;
-            for (let i = 0, l = unmountedComponents.length; i < l; ++i) {
-                const component = unmountedComponents[i];
-                // If the component is still not mounted on the next tick, trigger onDisappear.
-                if (!component.isMounted()) {
-                    component.onDisappear();
-                }
-            }
-            unmountedComponents.length = 0;
-        }, 0);
+function scheduleDisappearHandlers(component: AnyComponent, scheduler: Scheduler) {
+    let queue = disappearQueues.get(scheduler);
+    if (!queue) {
+        queue = {components: [], timeout: null};
+        disappearQueues.set(scheduler, queue);
+    }
+    queue.components.push(component);
+    if (!queue.timeout) {
+        const currentQueue = queue;
+        const task = scheduleTask(
+            'disappear handlers',
+            null,
+            scheduler,
+            () => runDisappearHandlers(scheduler, currentQueue),
+            0
+        );
+        if (task) {
+            currentQueue.timeout = task;
+        }
     }
 }
 
@@ -417,6 +1076,9 @@ function _doRender<PrepareResult, RenderArgs, RenderResult>(
 ): RenderResult {
     const prepare = data._prepare;
     if (prepare && prepare.isPending()) {
+        if (_useStaleRenderEntry(data, that)) {
+            return data._renderResult;
+        }
         DEBUG_REBACK && logger.debug(d`Cannot render ${that} because preparation is still pending`);
         throw new RenderPending();
     }
@@ -445,6 +1107,9 @@ function _doRender<PrepareResult, RenderArgs, RenderResult>(
                 });
             }
             if (error) {
+                if (error instanceof RenderPending && _useStaleRenderEntry(data, that)) {
+                    return data._renderResult;
+                }
                 throw error;
             }
         } while (data.flags & FLAG_NEEDS_PREPARE_AFTER_PREPARE);
@@ -463,7 +1128,19 @@ function _doRender<PrepareResult, RenderArgs, RenderResult>(
     ) {
         data.flags = setPhaseFlags(data.flags, Phase.RENDERING);
         const previousCount = renderState.renderComponentCount;
+        if (data.childrenData) {
+            data.childrenData.keyedChildrenInRender = null;
+        }
         const renderResult: any = methods.doRender.call(that, arg, prepareResult);
+        if (renderResult !== RENDER_INTERRUPT) {
+            _queueCommit(data, that, renderResult, false, data._renderResult);
+            const childrenData = data.childrenData;
+            if (childrenData && childrenData.keyedChildren) {
+                // Children might still be requested again later in this render pass (e.g. if this component renders
+                // again), so only release them at the end.
+                keyedChildrenReleaseQueue.add(data);
+            }
+        }
         if (renderResult !== RENDER_INTERRUPT && !(data.flags & FLAG_NEEDS_RENDER_AFTER_RENDER)) {
             const descendantCount = renderState.renderComponentCount - previousCount;
             const cacheEntry: CacheEntry<RenderResult> = {
@@ -476,16 +1153,63 @@ function _doRender<PrepareResult, RenderArgs, RenderResult>(
             };
             data._renderCache.setEntry(arg, cacheEntry);
             data._currentlyUsedCache = cacheEntry;
+            _rememberRenderEntry(data, that, cacheEntry);
         }
         return renderResult;
     } else {
         DEBUG_REBACK && logger.debug(d`Reusing render cache for ${that}`);
         _useCache(data, that, cached);
         renderState.renderComponentCount += cached.descendantCount;
+        _rememberRenderEntry(data, that, cached);
         return cached.result;
     }
 }
 
+/**
+ * Remembers a successful render of a component that keeps its previous result while preparing,
+ * so that it can be shown while a later preparation is pending.
+ */
+function _rememberRenderEntry(data: AnyInternalData, that: AnyComponent, cacheEntry: CacheEntry<any>) {
+    if (data.methods.shouldKeepPreviousResultWhilePreparing.call(that)) {
+        getUncommonData(data).lastRenderEntry = cacheEntry;
+    } else if (data.uncommonData) {
+        data.uncommonData.lastRenderEntry = null;
+    }
+}
+
+/**
+ * Renders a component whose preparation is pending using its last successful render result,
+ * if it keeps its previous result while preparing.
+ * Children rendered during the (pending) preparation are kept, in addition to the previous children.
+ * @returns Whether the previous render result is used (as `data._renderResult`).
+ */
+function _useStaleRenderEntry(data: AnyInternalData, that: AnyComponent): boolean {
+    const entry = data.uncommonData ? data.uncommonData.lastRenderEntry : null;
+    if (!entry || !data.methods.shouldKeepPreviousResultWhilePreparing.call(that)) {
+        return false;
+    }
+    DEBUG_REBACK && logger.debug(d`Rendering stale result of ${that} while preparation is pending`);
+    if (DEBUG_REBACK) {
+        getRenderAnalysisData(data).renderedStale = true;
+    }
+    data._renderResult = entry.result;
+    data.flags |= FLAG_SHOWING_STALE_RESULT;
+    const children = entry.children;
+    if (children) {
+        const renderedChildren = getChildrenData(data).renderedChildren;
+        const staleChildren: Children = new Map();
+        for (const [key, child] of children) {
+            if (!renderedChildren.has(key)) {
+                renderedChildren.set(key, child);
+                staleChildren.set(key, child);
+            }
+        }
+        _useCacheForChildren(data, that, staleChildren);
+    }
+    renderState.renderComponentCount += entry.descendantCount;
+    return true;
+}
+
 /**
  * Sets up the component to use a cached render result.
  */
@@ -494,6 +1218,7 @@ function _useCache<RenderResult>(data: AnyInternalData, that: AnyComponent, cach
     const result = cacheEntry.result;
     const children = cacheEntry.children;
     const used = cacheEntry.usedContextAttributes;
+    const prevResult = data._renderResult;
     data._renderResult = result;
     if (children) {
         const childrenData = getChildrenData(data);
@@ -512,13 +1237,240 @@ function _useCache<RenderResult>(data: AnyInternalData, that: AnyComponent, cach
     // If the cache entry is the one we've already been using, there's no need to recursively
     // update cached children. We know they are mounted correctly already.
     // (`_currentlyUsedCache` is reset when unmounting.)
-    if (cacheEntry === data._currentlyUsedCache) {
+    if (cacheEntry !== data._currentlyUsedCache) {
+        data._currentlyUsedCache = cacheEntry;
+        if (children) {
+            _useCacheForChildren(data, that, children);
+        }
+    }
+    // Queue the commit hook after any children, to keep the queue in bottom-up order.
+    _queueCommit(data, that, result, true, prevResult);
+}
+
+function _queueCommit(
+    data: AnyInternalData,
+    that: AnyComponent,
+    renderResult: any,
+    isCached: boolean,
+    prevRenderResult: any
+) {
+    if (!data.methods.hasCommitHooks && !(data.flags & FLAG_HAS_PENDING_EFFECTS)) {
+        return;
+    }
+    const entry = commitQueue.get(data);
+    if (entry) {
+        // The component is rendered repeatedly within the same render pass (e.g. because its state changed
+        // while rendering). Keep the result from before the render pass as the previous result.
+        entry.renderResult = renderResult;
+        entry.isCached = entry.isCached && isCached;
+    } else {
+        commitQueue.set(data, {component: that, renderResult, prevRenderResult, isCached});
+    }
+}
+
+/**
+ * Calls the `onRendered` and `onCommit` hooks of components rendered in a render pass that has finished
+ * successfully and without being interrupted.
+ */
+function _runCommitHooks(queue: Map<AnyInternalData, CommitEntry>) {
+    queue.forEach((entry, data) => {
+        if (!(data.flags & FLAG_MOUNTED)) {
+            // The component has been unmounted again during the render pass.
+            return;
+        }
+        const {component, renderResult, prevRenderResult, isCached} = entry;
+        if (data.flags & FLAG_HAS_PENDING_EFFECTS) {
+            _runEffects(component, data);
+        }
+        _callHook(component, data, () => {
+            if (isCached) {
+                data.methods.onCommit.call(component, renderResult);
+            } else {
+                data.methods.onRendered.call(component, renderResult, prevRenderResult);
+            }
+        });
+    });
+}
+
+/**
+ * Calls a commit hook, `onDisappear` handler, effect, or resource disposal of a component, reporting any error it
+ * throws (see `Component.setUncaughtErrorHandler`) instead of passing it on, so that a faulty hook cannot keep
+ * the hooks of other components from running or break the render pass that has already finished.
+ */
+function _callHook(that: AnyComponent, data: AnyInternalData, callback: () => void) {
+    try {
+        callback();
+    } catch (error) {
+        if (uncaughtErrorHandler) {
+            _reportUncaughtError(error, that, _getMountedRoot(that, data));
+        } else {
+            logger.error(d`Hook threw an error in ${that}:`, error);
+        }
+    }
+}
+
+function _declareEffect(
+    data: AnyInternalData,
+    key: string,
+    deps: ReadonlyArray<any>,
+    setup: () => EffectCleanup | void,
+    options?: EffectOptions
+) {
+    const phase = data.flags & MASK_PHASE;
+    if (phase !== Phase.PREPARING && phase !== Phase.RENDERING) {
+        throw new Error(`Effect ${key} can only be declared while preparing or rendering a component`);
+    }
+    const uncommonData = getUncommonData(data);
+    let effects = uncommonData.effects;
+    if (!effects) {
+        effects = uncommonData.effects = new Map();
+    }
+    const cleanupOnUnmount = !!options && options.cleanupOn === 'unmount';
+    const effect = effects.get(key);
+    if (effect) {
+        // Always keep the latest setup function, in case the effect needs to be set up again after unmounting.
+        effect.setup = setup;
+        effect.cleanupOnUnmount = cleanupOnUnmount;
+        if (sameDependencies(effect.deps, deps)) {
+            return;
+        }
+        effect.deps = deps;
+        effect.needsSetup = true;
+    } else {
+        effects.set(key, {deps, setup, cleanup: null, cleanupOnUnmount, needsSetup: true});
+    }
+    data.flags |= FLAG_HAS_PENDING_EFFECTS;
+}
+
+/**
+ * Sets up all effects of a component whose dependencies changed (or that have been cleaned up before),
+ * cleaning up their previous setup first.
+ */
+function _runEffects(that: AnyComponent, data: AnyInternalData) {
+    data.flags &= ~FLAG_HAS_PENDING_EFFECTS;
+    const effects = data.uncommonData ? data.uncommonData.effects : null;
+    if (!effects) {
+        return;
+    }
+    effects.forEach(effect => {
+        if (!effect.needsSetup) {
+            return;
+        }
+        effect.needsSetup = false;
+        const prevCleanup = effect.cleanup;
+        if (prevCleanup) {
+            effect.cleanup = null;
+            _callHook(that, data, prevCleanup);
+        }
+        _callHook(that, data, () => {
+            const cleanup = effect.setup();
+            effect.cleanup = typeof cleanup === 'function' ? cleanup : null;
+        });
+    });
+}
+
+/**
+ * Cleans up the effects of a component that is unmounted or disappears.
+ * The effects are set up again when the component is rendered the next time.
+ * @param onlyOnUnmount Whether to only clean up effects that should be cleaned up on unmount.
+ */
+function _cleanupEffects(that: AnyComponent, data: AnyInternalData, onlyOnUnmount: boolean) {
+    const effects = data.uncommonData ? data.uncommonData.effects : null;
+    if (!effects) {
         return;
     }
-    data._currentlyUsedCache = cacheEntry;
-    if (!children) {
+    effects.forEach(effect => {
+        if (onlyOnUnmount && !effect.cleanupOnUnmount) {
+            return;
+        }
+        if (!effect.needsSetup) {
+            effect.needsSetup = true;
+            data.flags |= FLAG_HAS_PENDING_EFFECTS;
+        }
+        const cleanup = effect.cleanup;
+        if (cleanup) {
+            effect.cleanup = null;
+            _callHook(that, data, cleanup);
+        }
+    });
+}
+
+function _memo<T>(data: AnyInternalData, name: string, deps: ReadonlyArray<any>, compute: () => T): T {
+    const uncommonData = getUncommonData(data);
+    let memos = uncommonData.memos;
+    if (!memos) {
+        memos = uncommonData.memos = new Map();
+    }
+    let memo = memos.get(name);
+    if (!memo) {
+        memo = {deps: null, value: undefined, hits: 0, misses: 0};
+        memos.set(name, memo);
+    }
+    if (memo.deps && sameDependencies(memo.deps, deps)) {
+        ++memo.hits;
+        return memo.value;
+    }
+    ++memo.misses;
+    DEBUG_REBACK && logger.debug(d`Computing memoized value ${name} of ${data._id}`);
+    const value = compute();
+    memo.deps = deps;
+    memo.value = value;
+    return value;
+}
+
+/**
+ * Clears all memoized values of a component, keeping their hit and miss counts.
+ */
+function _clearMemos(data: AnyInternalData) {
+    const memos = data.uncommonData ? data.uncommonData.memos : null;
+    if (memos) {
+        memos.forEach(memo => {
+            memo.deps = null;
+            memo.value = undefined;
+        });
+    }
+}
+
+function _own(data: AnyInternalData, that: AnyComponent, description: string, dispose: () => void): OwnedResource {
+    const uncommonData = getUncommonData(data);
+    let resources = uncommonData.resources;
+    if (!resources) {
+        resources = uncommonData.resources = new Set();
+    }
+    const resource = {description, dispose};
+    resources.add(resource);
+    if (DEBUG && data.flags & FLAG_DISAPPEARED) {
+        const alive = Array.from(resources, r => r.description).join(', ');
+        logger.warn(d`Component ${that} acquired a resource after it disappeared or was destroyed, which will not \
+be disposed automatically. Resources still alive: ${alive}`);
+    }
+    return resource;
+}
+
+function _release(data: AnyInternalData, resource: OwnedResource) {
+    const resources = data.uncommonData ? data.uncommonData.resources : null;
+    if (resources) {
+        resources.delete(resource);
+    }
+}
+
+/**
+ * Disposes all resources owned by a component.
+ */
+function _disposeResources(that: AnyComponent, data: AnyInternalData) {
+    const uncommonData = data.uncommonData;
+    const resources = uncommonData ? uncommonData.resources : null;
+    if (!uncommonData || !resources || !resources.size) {
         return;
     }
+    // Swap in a new set so that resources acquired while disposing are kept.
+    uncommonData.resources = new Set();
+    resources.forEach(resource => {
+        _callHook(that, data, () => resource.dispose());
+    });
+}
+
+function _useCacheForChildren(data: AnyInternalData, that: AnyComponent, children: Children) {
     DEBUG_REBACK && logger.debug(d`Using cache for children of ${that}`);
     for (const [_key, entry] of children) {
         const child = entry.instance;
@@ -544,8 +1496,38 @@ function _useCache<RenderResult>(data: AnyInternalData, that: AnyComponent, cach
 function _doPrepare(data: AnyInternalData, that: AnyComponent): Error | null {
     DEBUG_REBACK && logger.debug(d`Preparing ${that}`);
     data.flags = setPhaseFlags(data.flags & ~FLAG_PREPARED & ~FLAG_NEEDS_PREPARE_AFTER_PREPARE, Phase.PREPARING);
+    // Any previous preparation is superseded by this one.
+    pendingPrepares.delete(data);
+    timedOutPrepares.delete(data);
+    _clearPrepareTimeout(data);
+    _abortPrepare(data);
+    const prevRetry = data.uncommonData ? data.uncommonData.prepareRetry : null;
+    const attempt = prevRetry && prevRetry.isDue ? prevRetry.attempt : 1;
+    const retryErrors = prevRetry && prevRetry.isDue ? prevRetry.errors : [];
+    if (data.uncommonData) {
+        data.uncommonData.prepareAbortController = null;
+        _cancelPrepareRetry(data);
+    }
+    if (DEBUG_REBACK) {
+        const analysis = getRenderAnalysisData(data);
+        analysis.prepareAttempt = attempt;
+        analysis.prepareRetryErrors = retryErrors;
+    }
+    if (data.childrenData) {
+        data.childrenData.keyedChildrenInPrepare = null;
+    }
+    // Only create an abort controller if `doPrepare` takes the signal, or once the preparation turns out to be
+    // asynchronous (so that it can be aborted).
+    let abortController: AbortControllerLike | null = null;
     let prepare = null;
-    let [success, result] = tryCatch0(data.methods.doPrepare, that);
+    let success;
+    let result;
+    if (data.methods.doPrepareUsesSignal) {
+        abortController = createAbortController();
+        [success, result] = tryCatch1(data.methods.doPrepare, that, abortController.signal);
+    } else {
+        [success, result] = tryCatch0(data.methods.doPrepare, that);
+    }
     if (result instanceof SyncPromise) {
         if (result.isFulfilled()) {
             result = result.getValueSync();
@@ -562,9 +1544,12 @@ function _doPrepare(data: AnyInternalData, that: AnyComponent): Error | null {
     }
     const then = result ? result.then : null;
     if (typeof then === 'function') {
+        const asyncAbortController = abortController || createAbortController();
+        let isSettled = false;
         prepare = data._prepare = then.call(
             result,
             value => {
+                isSettled = true;
                 DEBUG_REBACK && logger.debug(d`Preparation of ${that} resolved`);
                 // Only actually set the prepare result when this is still the "current" preparation.
                 // E.g. if `.forceRender()` is called while this preparation is pending,
@@ -572,6 +1557,9 @@ function _doPrepare(data: AnyInternalData, that: AnyComponent): Error | null {
                 // Note that `prepare` might still be undefined when this is running synchronously.
                 // In that case do not ignore the result.
                 if (!prepare || data._prepare === prepare) {
+                    pendingPrepares.delete(data);
+                    _clearPrepareTimeout(data);
+                    _releaseAbortController(data, asyncAbortController);
                     data.flags |= FLAG_PREPARED;
                     data._prepareResult = value;
                     data._prepare = null;
@@ -582,16 +1570,71 @@ function _doPrepare(data: AnyInternalData, that: AnyComponent): Error | null {
                 }
             },
             error => {
+                isSettled = true;
+                if (asyncAbortController.signal.aborted) {
+                    // Errors of aborted preparations (typically caused by the abort itself) are ignored.
+                    // But if the preparation was aborted because the component got unmounted and it failed
+                    // for another reason, nothing is going to render the error, so report it.
+                    if (
+                        !(data.flags & FLAG_MOUNTED) &&
+                        !(error instanceof RenderPending) &&
+                        !(error && error.name === 'AbortError')
+                    ) {
+                        annotateComponentStack(error, that);
+                        _reportUncaughtError(error, that, null);
+                    }
+                    DEBUG_REBACK && logger.debug(d`Ignoring error ${error} of aborted preparation of ${that}`);
+                    return;
+                }
                 DEBUG_REBACK && logger.debug(d`Preparation of ${that} threw an asynchronous error: ${error}`);
+                if (!(error instanceof RenderPending)) {
+                    annotateComponentStack(error, that);
+                }
+                if (!prepare || data._prepare === prepare) {
+                    pendingPrepares.delete(data);
+                    _clearPrepareTimeout(data);
+                    _releaseAbortController(data, asyncAbortController);
+                    const isRetried =
+                        !(error instanceof RenderPending) &&
+                        _schedulePrepareRetry(data, that, error, attempt, retryErrors);
+                    if (isRetried) {
+                        return;
+                    }
+                }
                 _forceRender(that, data, false);
                 if (!(error instanceof RenderPending)) {
                     // Do not "persist" RenderPending errors.
                     // Just re-render when a RenderPending is thrown asynchronously.
                     // Do this after calling _forceRender, since that resets _renderError.
                     getUncommonData(data).renderError = error;
+                    // If the component is not part of a mounted component tree, nothing is going to render the error.
+                    if (!_getMountedRoot(that, data)) {
+                        _reportUncaughtError(error, that, null);
+                    }
                 }
             }
         );
+        if (!isSettled) {
+            pendingPrepares.set(data, that);
+            const uncommonData = getUncommonData(data);
+            uncommonData.prepareAbortController = asyncAbortController;
+            const timeout = data.methods.getPrepareTimeout.call(that);
+            if (timeout !== null) {
+                const startTime = now();
+                const currentPrepare = prepare;
+                uncommonData.prepareTimeout = scheduleTimer(
+                    'prepare timeout',
+                    that,
+                    getSchedulerForComponent(data),
+                    () => {
+                        if (data._prepare === currentPrepare) {
+                            _timeOutPrepare(data, that, timeout, startTime, attempt, retryErrors);
+                        }
+                    },
+                    timeout
+                );
+            }
+        }
         DEBUG_REBACK && logger.debug(d`Throw RenderPending in preparation of ${that}`);
         if (DEBUG_REBACK) {
             return new RenderPending({duringPrepareOf: that});
@@ -654,6 +1697,7 @@ function _performRender(
     }
     let success = true;
     let resultOrException;
+    data.flags &= ~FLAG_SHOWING_STALE_RESULT;
     if (shouldInterrupt) {
         resultOrException = RENDER_INTERRUPT;
     } else {
@@ -666,6 +1710,9 @@ function _performRender(
         } catch (err) {
             success = false;
             resultOrException = err;
+            if (!(err instanceof RenderPending)) {
+                annotateComponentStack(err, that);
+            }
         }
     }
     const isInterrupted = resultOrException === RENDER_INTERRUPT;
@@ -679,19 +1726,24 @@ function _performRender(
             const id = rootData._id;
             let item: InterruptedItem | void = interruptedComponents.get(id);
             if (!item) {
-                item = {root, rootData, interrupted: []};
+                item = {root, rootData, interrupted: [], timeout: null};
                 interruptedComponents.set(id, item);
             }
             const interrupted = item.interrupted;
             interrupted.push(data);
-            scheduleRerenderInterrupted();
+            scheduleRerenderInterrupted(item);
         }
     }
     const parentData = data._renderParentData;
     if (success && !isInterrupted) {
         renderResult = resultOrException;
+        if (error) {
+            // Regular renders are queued in `_doRender`, which knows whether the render cache was used.
+            _queueCommit(data, that, renderResult, false, data._renderResult);
+        }
         const pending = data._pendingCompleteRender;
-        if (pending) {
+        // A stale render result is not complete, since it is going to be replaced once the preparation resolves.
+        if (pending && !(data.flags & FLAG_SHOWING_STALE_RESULT)) {
             DEBUG_REBACK && logger.debug(d`Resolving complete render for component ${that}`);
             data._pendingCompleteRender = null;
             pending.dangerouslyResolve();
@@ -700,6 +1752,7 @@ function _performRender(
             getRenderAnalysisData(data).success = true;
         }
     } else if (isInterrupted || resultOrException instanceof RenderPending) {
+        commitQueue.delete(data);
         // Throw away the previous result (that contains pending children),
         // but do not unmount those children.
         if (prevChildren) {
@@ -727,6 +1780,7 @@ function _performRender(
             renderResult = methods.doRenderPending.call(that, arg);
         }
     } else {
+        commitQueue.delete(data);
         renderError = resultOrException;
         if (DEBUG_REBACK) {
             getRenderAnalysisData(data).renderError = renderError;
@@ -809,6 +1863,9 @@ function _unmountFromParent(that: AnyComponent, data: AnyInternalData, parent: A
         if (!(data.flags & FLAG_ERROR_DURING_INITIALIZE)) {
             data.methods.onUnmount.call(that);
         }
+        _cleanupEffects(that, data, true);
+        // Determine the scheduler while the component is still attached to its root.
+        const scheduler = getSchedulerForComponent(data);
         data.flags &= ~FLAG_MOUNTED;
         data._renderParent = null;
         data._renderParentData = null;
@@ -816,8 +1873,7 @@ function _unmountFromParent(that: AnyComponent, data: AnyInternalData, parent: A
         // Even if a component is unmounted, it is useful to remember the last render result,
         // so that when it is remounted and pending, we have at least *something* to show temporarily.
         if (!(data.flags & FLAG_ERROR_DURING_INITIALIZE)) {
-            unmountedComponents.push(that);
-            scheduleDisappearHandlers();
+            scheduleDisappearHandlers(that, scheduler);
         }
         DEBUG_REBACK && logger.endBlock();
     }
@@ -832,34 +1888,78 @@ function _resetPendingRender(data: AnyInternalData) {
     }
 }
 
-function _requestRender(that: AnyComponent, data: AnyInternalData) {
+function _requestRender(that: AnyComponent, data: AnyInternalData, priority: PriorityLevel) {
     const parent = data._renderParent;
     const parentData = data._renderParentData;
     if (parent && parentData) {
         DEBUG_REBACK && logger.debug(d`Triggering needs-render on ${that}`);
         const childrenData = parentData.childrenData;
         if (childrenData && childrenData.prepareChildren.has(data._id)) {
-            _forcePrepare(parent, parentData);
+            _forcePrepare(parent, parentData, priority);
         } else {
-            _forceRender(parent, parentData, false);
+            _forceRender(parent, parentData, false, priority);
         }
+    } else if (batchFlushRootRequests) {
+        batchFlushRootRequests.push([that, data, priority]);
     } else {
         const rootData = getRootData(data);
         DEBUG_REBACK && logger.debug(d`Existing timeout: ${rootData.needsRenderTimeout}`);
+        const existingTimeout = rootData.needsRenderTimeout;
+        if (existingTimeout && priority > rootData.needsRenderPriority) {
+            // A more urgent request supersedes the one that is already scheduled.
+            DEBUG_REBACK && logger.debug(d`Rescheduling needs-render for ${that} with priority ${priority}`);
+            cancelTask(existingTimeout);
+            rootData.needsRenderTimeout = null;
+        }
         if (!rootData.needsRenderTimeout) {
             DEBUG_REBACK && logger.debug(d`Scheduling needs-render for ${that}`);
-            rootData.needsRenderTimeout = scheduler(() => {
-                rootData.needsRenderTimeout = null;
-                DEBUG_REBACK && logger.debug(d`Triggering batched needs-render on ${that}`);
-                const onRequestRender = getRootData(data).onRequestRender;
-                if (onRequestRender) {
-                    onRequestRender();
-                }
-            }, RENDER_BATCH_TIME);
+            const task = scheduleTask(
+                'render request',
+                that,
+                rootData.scheduler || globalScheduler,
+                () => {
+                    rootData.needsRenderTimeout = null;
+                    DEBUG_REBACK && logger.debug(d`Triggering batched needs-render on ${that}`);
+                    const onRequestRender = getRootData(data).onRequestRender;
+                    if (onRequestRender) {
+                        onRequestRender();
+                    }
+                },
+                RENDER_BATCH_TIME,
+                priority
+            );
+            if (task) {
+                rootData.needsRenderTimeout = task;
+                rootData.needsRenderPriority = priority;
+            }
         }
     }
 }
 
+/**
+ * Immediately fires a pending render request on a root component (including re-rendering any components that have
+ * been interrupted in its previous render pass), cancelling the scheduled request.
+ * @returns Whether there was a pending render request.
+ */
+function _flushRender(that: AnyComponent, data: AnyInternalData): boolean {
+    if (renderState.isRendering) {
+        throw new FlushDuringRenderError(that);
+    }
+    const item = interruptedComponents.get(data._id);
+    if (item) {
+        _rerenderInterruptedAndRequestRender(item);
+    }
+    const rootData = data.uncommonData ? data.uncommonData.rootData : null;
+    const task = rootData ? rootData.needsRenderTimeout : null;
+    if (!task) {
+        return false;
+    }
+    DEBUG_REBACK && logger.debug(d`Flushing needs-render for ${that}`);
+    cancelTask(task);
+    task.func();
+    return true;
+}
+
 function _enterRender(that: AnyComponent, data: AnyInternalData, context?: Context | null | void) {
     PROFILE_REBACK && startTiming('_enterRender');
     data.flags = setPhaseFlags(data.flags & ~FLAG_KEPT_MOUNTED, Phase.MOUNTING);
@@ -905,6 +2005,32 @@ A component should only be mounted into a single parent.`);
     PROFILE_REBACK && stopTiming('_enterRender');
 }
 
+function _registerRoot(root: AnyComponent) {
+    const id = root._reback._id;
+    if (mountedRoots.has(id)) {
+        return;
+    }
+    DEBUG_REBACK && logger.debug(d`Registering root ${root}`);
+    mountedRoots.set(id, globals.WeakRef ? new globals.WeakRef(root) : {deref: () => root});
+    rootListeners.forEach(listener => {
+        if (listener.onMount) {
+            _callListener(root, () => listener.onMount && listener.onMount(root));
+        }
+    });
+}
+
+function _unregisterRoot(root: AnyComponent) {
+    if (!mountedRoots.delete(root._reback._id)) {
+        return;
+    }
+    DEBUG_REBACK && logger.debug(d`Unregistering root ${root}`);
+    rootListeners.forEach(listener => {
+        if (listener.onUnmount) {
+            _callListener(root, () => listener.onUnmount && listener.onUnmount(root));
+        }
+    });
+}
+
 function _remount(
     that: AnyComponent,
     data: AnyInternalData,
@@ -913,8 +2039,13 @@ function _remount(
     newParent: AnyComponent | null,
     context?: Context | null | void
 ) {
+    data.flags &= ~FLAG_DISAPPEARED;
     if (wasMounted) {
         _unmountFromParent(that, data, prevParent);
+        if (!prevParent) {
+            // This used to be a root component, but now it is mounted into another component.
+            _unregisterRoot(that);
+        }
     }
     // Update the context before running onAppear and onMount.
     _updateContext(that, data, newParent, context);
@@ -987,17 +2118,244 @@ function _walkTree(that: AnyComponent, data: AnyInternalData, callback: (descend
     }
 }
 
+/**
+ * Returns the child with the given class and key (see `Component#child`), creating it if necessary.
+ */
+function _getKeyedChild<C extends AnyComponent, A extends any[]>(
+    data: AnyInternalData,
+    ChildClass: new (...args: A) => C,
+    key: ChildKey,
+    initArgs: A
+): C {
+    const phase = data.flags & MASK_PHASE;
+    if (phase !== Phase.PREPARING && phase !== Phase.RENDERING) {
+        throw new Error(`Child ${key} can only be requested while preparing or rendering a component`);
+    }
+    const childrenData = getChildrenData(data);
+    let keyedChildren = childrenData.keyedChildren;
+    if (!keyedChildren) {
+        keyedChildren = childrenData.keyedChildren = new Map();
+    }
+    let byKey = keyedChildren.get(ChildClass);
+    if (!byKey) {
+        byKey = new Map();
+        keyedChildren.set(ChildClass, byKey);
+    }
+    let child = byKey.get(key) as C | undefined;
+    if (!child) {
+        child = new ChildClass(...initArgs);
+        DEBUG_REBACK && logger.debug(d`Created keyed child ${child} with key ${key}`);
+        byKey.set(key, child);
+    }
+    if (phase === Phase.PREPARING) {
+        if (!childrenData.keyedChildrenInPrepare) {
+            childrenData.keyedChildrenInPrepare = new Set();
+        }
+        childrenData.keyedChildrenInPrepare.add(child);
+    } else {
+        if (!childrenData.keyedChildrenInRender) {
+            childrenData.keyedChildrenInRender = new Set();
+        }
+        childrenData.keyedChildrenInRender.add(child);
+    }
+    return child;
+}
+
+/**
+ * Releases unused keyed children of all components queued during a render pass.
+ * Since other cache entries of a component might still refer to its released children, its render cache is emptied.
+ */
+function _releaseQueuedKeyedChildren(queue: Set<AnyInternalData>) {
+    queue.forEach(data => {
+        const childrenData = data.childrenData;
+        if (childrenData && _releaseUnusedKeyedChildren(childrenData)) {
+            data._renderCache.empty();
+            data._currentlyUsedCache = null;
+        }
+    });
+}
+
+/**
+ * Forgets keyed children that have been requested neither during the last preparation nor during the last render,
+ * and destroys them (disposing their resources and effects).
+ * Children that are still rendered elsewhere are unmounted (and eventually disappear) like any other child
+ * that is not rendered anymore.
+ * @returns Whether any children were released.
+ */
+function _releaseUnusedKeyedChildren(childrenData: ChildrenData): boolean {
+    const keyedChildren = childrenData.keyedChildren;
+    if (!keyedChildren) {
+        return false;
+    }
+    const inPrepare = childrenData.keyedChildrenInPrepare;
+    const inRender = childrenData.keyedChildrenInRender;
+    let released = false;
+    keyedChildren.forEach((byKey, ChildClass) => {
+        byKey.forEach((child, key) => {
+            if ((inPrepare && inPrepare.has(child)) || (inRender && inRender.has(child))) {
+                return;
+            }
+            DEBUG_REBACK && logger.debug(d`Releasing keyed child ${child} with key ${key}`);
+            byKey.delete(key);
+            released = true;
+            child.destroyComponent();
+        });
+        if (!byKey.size) {
+            keyedChildren.delete(ChildClass);
+        }
+    });
+    return released;
+}
+
 function _invalidatePrepareCache(data: AnyInternalData) {
     // Set a new promise for now. This is checked for in `_doPrepare`, and any result
     // from a pending preparation is subsequently ignored.
     DEBUG_REBACK && logger.debug(d`Invalidating prepare cache of ${data._id}`);
     data._prepare = null;
+    pendingPrepares.delete(data);
+    timedOutPrepares.delete(data);
+    _clearPrepareTimeout(data);
+    _cancelPrepareRetry(data);
+    _abortPrepare(data);
     data.flags &= ~FLAG_PREPARED;
     data._prepareResult = null;
     const childrenData = data.childrenData;
     if (childrenData) {
         childrenData.prepareChildren = new Map();
     }
+    _clearMemos(data);
+}
+
+/**
+ * Aborts the pending preparation of a component (if any), signalling its `doPrepare` to stop any work.
+ * The aborted controller is kept until the next preparation starts, so that the devtools can tell
+ * that the preparation was aborted.
+ */
+function _abortPrepare(data: AnyInternalData) {
+    const abortController = data.uncommonData ? data.uncommonData.prepareAbortController : null;
+    if (abortController && !abortController.signal.aborted) {
+        DEBUG_REBACK && logger.debug(d`Aborting preparation of ${data._id}`);
+        abortController.abort();
+    }
+}
+
+function _clearPrepareTimeout(data: AnyInternalData) {
+    const uncommonData = data.uncommonData;
+    if (uncommonData && uncommonData.prepareTimeout) {
+        cancelTask(uncommonData.prepareTimeout);
+        uncommonData.prepareTimeout = null;
+    }
+}
+
+/**
+ * Rejects a pending preparation that did not settle in time, rendering the component with a
+ * `PrepareTimeoutError` (via `doRenderError`).
+ */
+function _timeOutPrepare(
+    data: AnyInternalData,
+    that: AnyComponent,
+    timeout: number,
+    startTime: number,
+    attempt: number,
+    retryErrors: any[]
+) {
+    DEBUG_REBACK && logger.debug(d`Preparation of ${that} timed out after ${timeout} ms`);
+    getUncommonData(data).prepareTimeout = null;
+    data._prepare = null;
+    pendingPrepares.delete(data);
+    timedOutPrepares.set(data, {component: that, timeout, startTime});
+    // Stop any work of the preparation, and ignore its eventual result.
+    _abortPrepare(data);
+    const error = new PrepareTimeoutError(that, timeout);
+    annotateComponentStack(error, that);
+    if (_schedulePrepareRetry(data, that, error, attempt, retryErrors)) {
+        return;
+    }
+    _forceRender(that, data, false);
+    // Do this after calling _forceRender, since that resets _renderError.
+    getUncommonData(data).renderError = error;
+}
+
+/**
+ * Schedules another attempt to prepare a component after its preparation failed, if the component's
+ * retry policy allows it. Until the retry, the component stays pending.
+ * @returns Whether a retry was scheduled.
+ */
+function _schedulePrepareRetry(
+    data: AnyInternalData,
+    that: AnyComponent,
+    error: any,
+    attempt: number,
+    retryErrors: any[]
+): boolean {
+    const policy = data.methods.getPrepareRetryPolicy.call(that);
+    if (!policy || attempt >= policy.maxAttempts || (policy.shouldRetry && !policy.shouldRetry(error, attempt))) {
+        return false;
+    }
+    const {initialDelay = DEFAULT_RETRY_INITIAL_DELAY, backoffFactor = DEFAULT_RETRY_BACKOFF_FACTOR} = policy;
+    let delay = initialDelay * Math.pow(backoffFactor, attempt - 1);
+    if (policy.maxDelay !== undefined) {
+        delay = Math.min(delay, policy.maxDelay);
+    }
+    DEBUG_REBACK && logger.debug(d`Retrying preparation of ${that} in ${delay} ms after error: ${error}`);
+    const retry: PrepareRetry = {
+        attempt: attempt + 1,
+        errors: retryErrors.concat([error]),
+        task: null,
+        isDue: false,
+        promise: new SyncPromise()
+    };
+    getUncommonData(data).prepareRetry = retry;
+    // Keep the component pending until the retry.
+    data._prepare = retry.promise;
+    retry.task = scheduleTask(
+        'prepare retry',
+        null,
+        getSchedulerForComponent(data),
+        () => {
+            retry.task = null;
+            if (data.uncommonData && data.uncommonData.prepareRetry === retry) {
+                // The retry's promise is only resolved once the next preparation starts,
+                // so that anyone waiting for the component to be ready keeps waiting.
+                retry.isDue = true;
+                data._prepare = null;
+                _forceRender(that, data, false);
+            }
+        },
+        delay
+    );
+    return true;
+}
+
+/**
+ * Cancels a scheduled retry of a component's preparation (if any).
+ */
+function _cancelPrepareRetry(data: AnyInternalData) {
+    const uncommonData = data.uncommonData;
+    const retry = uncommonData ? uncommonData.prepareRetry : null;
+    if (!uncommonData || !retry) {
+        return;
+    }
+    uncommonData.prepareRetry = null;
+    if (retry.task) {
+        cancelTask(retry.task);
+        retry.task = null;
+    }
+    retry.promise.dangerouslyResolve();
+}
+
+/**
+ * Returns the components whose preparation timed out and that have not prepared again since.
+ */
+export function getTimedOutPrepares(): TimedOutPrepare[] {
+    return Array.from(timedOutPrepares.values());
+}
+
+function _releaseAbortController(data: AnyInternalData, abortController: AbortControllerLike) {
+    const uncommonData = data.uncommonData;
+    if (uncommonData && uncommonData.prepareAbortController === abortController) {
+        uncommonData.prepareAbortController = null;
+    }
 }
 
 function _invalidateRenderCache(data: AnyInternalData) {
@@ -1015,7 +2373,18 @@ function _invalidateRenderCache(data: AnyInternalData) {
     }
 }
 
-function _forceRender(that: AnyComponent, data: AnyInternalData, notDuringRender: boolean) {
+function _forceRender(
+    that: AnyComponent,
+    data: AnyInternalData,
+    notDuringRender: boolean,
+    priority: PriorityLevel = Priority.NORMAL
+) {
+    if (batchFlushVisited) {
+        if (batchFlushVisited.has(data)) {
+            return;
+        }
+        batchFlushVisited.add(data);
+    }
     // Invalidate the render cache immediately, regardless of this component's phase.
     // This is important because the component might have been unmounted in the meanwhile, but the
     // next time it renders it still shouldn't reuse a previous render cache (cf. CLOUD-7731).
@@ -1035,10 +2404,10 @@ function _forceRender(that: AnyComponent, data: AnyInternalData, notDuringRender
     }
     DEBUG_REBACK && logger.debug(d`Forcing render of ${that}`);
     _resetPendingRender(data);
-    _requestRender(that, data);
+    _requestRender(that, data, priority);
 }
 
-function _forcePrepare(that: AnyComponent, data: AnyInternalData) {
+function _forcePrepare(that: AnyComponent, data: AnyInternalData, priority: PriorityLevel = Priority.NORMAL) {
     const phase = data.flags & MASK_PHASE;
     if (phase === Phase.PREPARING) {
         DEBUG_REBACK && logger.info(d`Schedule prepare after preparing ${that}`);
@@ -1050,7 +2419,7 @@ function _forcePrepare(that: AnyComponent, data: AnyInternalData) {
         return;
     }
     _invalidatePrepareCache(data);
-    _forceRender(that, data, false);
+    _forceRender(that, data, false, priority);
 }
 
 function _setState<State extends object, K extends keyof State>(
@@ -1058,42 +2427,88 @@ function _setState<State extends object, K extends keyof State>(
     data: AnyInternalData,
     state: State,
     onChange: OnChange<State>,
-    values: Pick<State, K>
+    values: Pick<State, K>,
+    priority: PriorityLevel = Priority.NORMAL,
+    isInitialization: boolean = false
 ) {
     let hasChanged = false;
     // Accumulate all state waiters that need to be resolved and resolve them at the end,
     // so that any other attributes updated in the same .setState call can be assumed to updated as well
     // by the time a state change fires.
     let allWaiters: Array<() => void> | null = null;
+    const computed = data.methods.computed;
+    let affectedComputed: Set<string> | null = null;
+    // Initial values are not changes, so they are not reported to watchers.
+    const watchers = data.uncommonData && !isInitialization ? data.uncommonData.watchers : null;
+    let watchedChanges: Map<string, any> | null = null;
     for (const name in values) {
         if (values.hasOwnProperty(name)) {
             const value = values[name];
             const oldValue = state[name];
             if (oldValue !== value && !(Number.isNaN(oldValue) && Number.isNaN(value))) {
+                const dependents = computed ? computed.dependents.get(name) : null;
+                if (dependents) {
+                    if (!affectedComputed) {
+                        affectedComputed = new Set();
+                    }
+                    for (let i = 0, l = dependents.length; i < l; ++i) {
+                        const dependent = dependents[i];
+                        if (affectedComputed.has(dependent)) {
+                            continue;
+                        }
+                        affectedComputed.add(dependent);
+                        if (watchers && _isWatched(watchers, dependent)) {
+                            // Read the old value of watched computed attributes before any of their inputs change.
+                            if (!watchedChanges) {
+                                watchedChanges = new Map();
+                            }
+                            watchedChanges.set(dependent, _getAttribute(that, data, dependent));
+                        }
+                    }
+                }
                 state[name] = value as any;
+                if (watchers && watchers.size) {
+                    if (!watchedChanges) {
+                        watchedChanges = new Map();
+                    }
+                    watchedChanges.set(name, oldValue);
+                }
                 const changeListener = onChange && onChange[name];
                 if (changeListener) {
                     changeListener.call(that, value, oldValue);
                 }
                 const phase = data.flags & MASK_PHASE;
-                if (phase > Phase.MOUNTING) {
+                if (phase > Phase.MOUNTING && !isInitialization) {
                     let changedAttrs = data._changedAttributesSincePrepare;
                     if (!changedAttrs) {
                         changedAttrs = data._changedAttributesSincePrepare = new Set();
                     }
                     changedAttrs.add(name);
                 }
-                const waiters = data.uncommonData ? data.uncommonData.stateWaiters[name] : null;
-                if (waiters) {
+                const stateWaiters = data.uncommonData ? data.uncommonData.stateWaiters : null;
+                const waiters = stateWaiters ? stateWaiters[name] : undefined;
+                if (stateWaiters && waiters) {
+                    // Waiters that are not resolved yet, only created once a waiter is resolved.
+                    let remainingWaiters: AttributeWaiter[] | null = null;
                     for (let i = 0, l = waiters.length; i < l; ++i) {
                         const waiter = waiters[i];
-                        if (waiter && value === waiter.value) {
+                        if (value === waiter.value) {
                             if (!allWaiters) {
                                 allWaiters = [];
                             }
                             allWaiters.push(waiter.resolve);
-                            // TODO: We should clean up the waiters list at some point.
-                            waiters[i] = null;
+                            if (!remainingWaiters) {
+                                remainingWaiters = waiters.slice(0, i);
+                            }
+                        } else if (remainingWaiters) {
+                            remainingWaiters.push(waiter);
+                        }
+                    }
+                    if (remainingWaiters) {
+                        if (remainingWaiters.length) {
+                            stateWaiters[name] = remainingWaiters;
+                        } else {
+                            delete stateWaiters[name];
                         }
                     }
                 }
@@ -1102,18 +2517,220 @@ function _setState<State extends object, K extends keyof State>(
         }
     }
     if (hasChanged) {
+        if (affectedComputed) {
+            _invalidateComputed(data, affectedComputed);
+            // Computed attributes are only recomputed when they are read, so any computed attribute
+            // whose inputs changed counts as changed.
+            if ((data.flags & MASK_PHASE) > Phase.MOUNTING && !isInitialization) {
+                const changedAttrs =
+                    data._changedAttributesSincePrepare || (data._changedAttributesSincePrepare = new Set());
+                affectedComputed.forEach(name => changedAttrs.add(name));
+            }
+        }
         if (allWaiters) {
             for (let i = 0, l = allWaiters.length; i < l; ++i) {
                 allWaiters[i]();
             }
         }
+        const predicateWaiters = data.uncommonData ? data.uncommonData.predicateWaiters : null;
+        if (predicateWaiters && predicateWaiters.size) {
+            _checkPredicateWaiters(state, predicateWaiters);
+        }
+        if (watchedChanges) {
+            if (batchDepth > 0) {
+                // Notify watchers once at the end of the batch, with the values from before the batch.
+                const batchedChanges = batchedStateChanges.get(that);
+                if (batchedChanges) {
+                    watchedChanges.forEach((oldValue, name) => {
+                        if (!batchedChanges.has(name)) {
+                            batchedChanges.set(name, oldValue);
+                        }
+                    });
+                } else {
+                    batchedStateChanges.set(that, watchedChanges);
+                }
+            } else {
+                _notifyWatchers(that, data, watchedChanges);
+            }
+        }
+        if (isInitialization) {
+            return;
+        }
         if (DEBUG_REBACK) {
             logger.info(d`Rerendering ${that} due to changed attributes`);
         }
+        if (batchDepth > 0 && !(data.flags & FLAG_AVOID_RENDER_AFTER_RENDER)) {
+            // Defer the render request to the end of the batch.
+            const batchedPriority = batchedComponents.get(that);
+            if (batchedPriority === undefined || batchedPriority < priority) {
+                batchedComponents.set(that, priority);
+            }
+            return;
+        }
         // We really have to force a render here (i.e. also invalidate render caches), not only request it.
         // Otherwise only the next render pass would enter doRender, but subsequent passes after that might
         // still have a cache (e.g. the notebook would show the cell separator in an old location after scrolling).
-        _forceRender(that, data, false);
+        _forceRender(that, data, false, priority);
+    }
+}
+
+/**
+ * Sets state attributes that have not been set before (e.g. initial values of function component state).
+ * Like `setState`, this resolves waiters and invalidates computed attributes, but like a default value,
+ * it does not count as a change: it neither calls change handlers or watchers nor causes a render
+ * or another preparation.
+ */
+export function initializeState(component: AnyComponent, values: {[name: string]: any}) {
+    _setState(component, component._reback, component.state, undefined, values, Priority.NORMAL, true);
+}
+
+/**
+ * Returns whether any (rendered) descendant of a component has a pending asynchronous preparation.
+ * During `doRender`, this takes into account the children rendered so far.
+ * Instead of walking the component's subtree, this walks up from each pending preparation.
+ */
+export function hasPendingDescendants(component: AnyComponent): boolean {
+    const data = component._reback;
+    const childrenData = data.childrenData;
+    if (!childrenData || !pendingPrepares.size) {
+        return false;
+    }
+    for (const [pendingData] of pendingPrepares) {
+        let childData = pendingData;
+        let parentData = pendingData._renderParentData;
+        while (parentData && parentData !== data) {
+            childData = parentData;
+            parentData = parentData._renderParentData;
+        }
+        if (parentData && childrenData.renderedChildren.has(childData._id)) {
+            return true;
+        }
+    }
+    return false;
+}
+
+/**
+ * Settles all waiters (see `Component#whenState`) whose predicate is satisfied by the given state,
+ * or rejects them if their predicate throws.
+ */
+function _checkPredicateWaiters(state: any, waiters: Set<PredicateWaiter>) {
+    // Copy the waiters, since settling a waiter removes it from the set.
+    Array.from(waiters).forEach(waiter => {
+        let satisfied;
+        try {
+            satisfied = waiter.predicate(state);
+        } catch (error) {
+            waiter.settle(true, error);
+            return;
+        }
+        if (satisfied) {
+            waiter.settle(false);
+        }
+    });
+}
+
+/**
+ * Returns the error with which waiting for something is rejected when the given signal is aborted.
+ */
+function _getAbortError(signal: AbortSignalLike): any {
+    const reason = signal.reason;
+    if (reason !== undefined) {
+        return reason;
+    }
+    const error = new Error('The operation was aborted');
+    error.name = 'AbortError';
+    return error;
+}
+
+function _isWatched(watchers: Set<Watcher>, name: string) {
+    let isWatched = false;
+    watchers.forEach(watcher => {
+        if (!watcher.names || watcher.names.has(name)) {
+            isWatched = true;
+        }
+    });
+    return isWatched;
+}
+
+/**
+ * Calls the watchers of a component whose state changed.
+ * @param changes Changed attributes, mapped to their previous values.
+ */
+function _notifyWatchers(that: AnyComponent, data: AnyInternalData, changes: Map<string, any>) {
+    const watchers = data.uncommonData ? data.uncommonData.watchers : null;
+    if (!watchers) {
+        return;
+    }
+    const newValues: Map<string, any> = new Map();
+    // Copy the watchers, so that watchers can unsubscribe (or add others) while being notified.
+    Array.from(watchers).forEach(watcher => {
+        if (!watchers.has(watcher)) {
+            // Unsubscribed by a previous watcher.
+            return;
+        }
+        const {names, handler} = watcher;
+        const changed: Set<string> = new Set();
+        const values = {};
+        const oldValues = {};
+        changes.forEach((oldValue, name) => {
+            if (names && !names.has(name)) {
+                return;
+            }
+            let value = newValues.get(name);
+            if (value === undefined && !newValues.has(name)) {
+                value = _getAttribute(that, data, name);
+                newValues.set(name, value);
+            }
+            if (!sameValueZero(oldValue, value)) {
+                changed.add(name);
+                values[name] = value;
+                oldValues[name] = oldValue;
+            }
+        });
+        if (changed.size) {
+            handler.call(that, changed, values, oldValues);
+        }
+    });
+}
+
+/**
+ * Notifies watchers of all components whose state changed during the batch that just ended.
+ */
+function _flushBatchedStateChanges() {
+    const changes = Array.from(batchedStateChanges);
+    batchedStateChanges.clear();
+    for (let i = 0, l = changes.length; i < l; ++i) {
+        const [component, componentChanges] = changes[i];
+        _notifyWatchers(component, component._reback, componentChanges);
+    }
+}
+
+/**
+ * Forces a render of all components whose state changed during the batch that just ended.
+ * Each component (and each of their ancestors) is only invalidated once, so that there is at most one render request
+ * per root component.
+ */
+function _flushBatch() {
+    const components = Array.from(batchedComponents);
+    batchedComponents.clear();
+    // Handle the most urgent requests first, so that the render request on a common ancestor
+    // gets the highest priority, even though requests are not propagated through that ancestor a second time.
+    components.sort((a, b) => b[1] - a[1]);
+    batchFlushVisited = new Set();
+    const rootRequests: Array<[AnyComponent, AnyInternalData, PriorityLevel]> = [];
+    batchFlushRootRequests = rootRequests;
+    try {
+        for (let i = 0, l = components.length; i < l; ++i) {
+            const [component, priority] = components[i];
+            _forceRender(component, component._reback, false, priority);
+        }
+    } finally {
+        batchFlushVisited = null;
+        batchFlushRootRequests = null;
+        for (let i = 0, l = rootRequests.length; i < l; ++i) {
+            const [root, rootData, priority] = rootRequests[i];
+            _requestRender(root, rootData, priority);
+        }
     }
 }
 
@@ -1146,13 +2763,22 @@ function _render(
         const errorResult = _performRender(data, arg, renderError, isRequired, isOptional, true, that);
         const repeatedError = errorResult[2];
         if (repeatedError) {
-            // If there's an error during doRenderError, just throw it.
+            // If there's an error during doRenderError, throw it. If it is a different error than the one being
+            // rendered, wrap both of them, so that the original error is not lost. Errors during initialization
+            // are wrapped as well, so that they can be told apart from errors of the parent.
             DEBUG_REBACK &&
                 logger.warn(d`Repeated synchronous rendering error: ${repeatedError} after: ${renderError}`);
             if (DEBUG_REBACK) {
                 getRenderAnalysisData(data).repeatedError = repeatedError;
             }
-            throw repeatedError;
+            let error = repeatedError;
+            if (repeatedError !== renderError) {
+                error = new RepeatedRenderError(that, renderError, repeatedError);
+            } else if (data.flags & FLAG_ERROR_DURING_INITIALIZE) {
+                error = new InitializationError(that, renderError);
+            }
+            annotateComponentStack(error, that);
+            throw error;
         } else {
             isPending = errorResult[0];
             renderResult = errorResult[1];
@@ -1180,17 +2806,103 @@ function _render(
         throw new RenderPending();
     }
     if (data.flags & FLAG_NEEDS_RENDER_AFTER_RENDER) {
-        if (recursion < 10) {
+        if (recursion < MAX_RENDER_RECURSION) {
             _enterRender(that, data, context);
             return _render(that, data, arg, context, isRequired, isOptional, recursion + 1);
         } else {
-            if (DEBUG_REBACK) {
-                getRenderAnalysisData(data).recursionLimitReached = true;
-            }
-            _forceRender(that, data, false);
+            if (DEBUG_REBACK) {
+                getRenderAnalysisData(data).recursionLimitReached = true;
+            }
+            const error = new RenderLoopError(that, MAX_RENDER_RECURSION);
+            annotateComponentStack(error, that);
+            throw error;
+        }
+    }
+    return renderResult;
+}
+
+/**
+ * Returns the stack of components from the given component up to its root,
+ * each described by its class name and `cid`.
+ */
+function getComponentStack(component: AnyComponent | null): string[] {
+    const stack: string[] = [];
+    while (component) {
+        stack.push(`${component.constructor.name} (${component.cid})`);
+        component = component._reback._renderParent;
+    }
+    return stack;
+}
+
+/**
+ * Annotates an error that escaped a component's `doRender`, `doPrepare`, or `initialize` with the stack of components
+ * it happened in, as `error.rebackComponentStack`. An error that has been annotated already (further down in the
+ * render tree) is left alone.
+ * @param error The error.
+ * @param component The component in which the error happened.
+ * @param parent The parent of the component, if it is not mounted (yet).
+ */
+function annotateComponentStack(error: any, component: AnyComponent, parent?: AnyComponent | null) {
+    if (!error || typeof error !== 'object' || error.rebackComponentStack || !Object.isExtensible(error)) {
+        return;
+    }
+    error.rebackComponentStack = [`${component.constructor.name} (${component.cid})`].concat(
+        getComponentStack(parent === undefined ? component._reback._renderParent : parent)
+    );
+    errorComponents.set(error, component);
+}
+
+/**
+ * Passes an error that is not handled by any component to the uncaught error handler (if any).
+ * @param error The error.
+ * @param component The component in which the error happened, if it is not known from the error itself.
+ * @param root The root of the component tree in which the error happened.
+ */
+function _reportUncaughtError(error: any, component: AnyComponent, root: AnyComponent | null) {
+    if (!uncaughtErrorHandler) {
+        return;
+    }
+    const errorComponent = error && typeof error === 'object' ? errorComponents.get(error) : null;
+    DEBUG_REBACK && logger.debug(d`Reporting uncaught error ${error} in ${errorComponent || component}`);
+    try {
+        uncaughtErrorHandler(error, errorComponent || component, root);
+    } catch (handlerError) {
+        logger.error('Uncaught error handler threw an error:', handlerError);
+    }
+}
+
+/**
+ * Calls a render pass or root listener, reporting any error it throws (see `Component.setUncaughtErrorHandler`)
+ * instead of passing it on, so that a faulty listener cannot break a render pass.
+ */
+function _callListener(root: AnyComponent, callback: () => void) {
+    try {
+        callback();
+    } catch (error) {
+        if (uncaughtErrorHandler) {
+            _reportUncaughtError(error, root, root);
+        } else {
+            logger.error(d`Listener threw an error for root ${root}:`, error);
         }
     }
-    return renderResult;
+}
+
+/**
+ * Returns the root of a component's tree if the component is part of a mounted component tree, or `null` otherwise.
+ */
+function _getMountedRoot(that: AnyComponent, data: AnyInternalData): AnyComponent | null {
+    if (!(data.flags & FLAG_MOUNTED)) {
+        return null;
+    }
+    let root = that;
+    while (root._reback._renderParent) {
+        root = root._reback._renderParent;
+    }
+    return mountedRoots.has(root._reback._id) ? root : null;
+}
+
+function getPriorityOption(options?: {priority?: PriorityLevel}): PriorityLevel {
+    return options && options.priority !== undefined ? options.priority : Priority.NORMAL;
 }
 
 function tryCatch0(t, thisArg): [boolean, any] {
@@ -1201,6 +2913,14 @@ function tryCatch0(t, thisArg): [boolean, any] {
     }
 }
 
+function tryCatch1(t, thisArg, arg): [boolean, any] {
+    try {
+        return [true, t.call(thisArg, arg)];
+    } catch (e) {
+        return [false, e];
+    }
+}
+
 class RebackVirtualMethods<PrepareResult, RenderArgs, RenderResult, ContextType extends Context> {
     onAppear: () => void;
     onMount: () => void;
@@ -1209,15 +2929,36 @@ class RebackVirtualMethods<PrepareResult, RenderArgs, RenderResult, ContextType
     getPrepareContextModifications: () => {[name: string]: any} | null;
     getContextModifications: (prepareResult: PrepareResult) => {[name: string]: any} | null;
     onReceiveContext: (prevContext?: ContextType) => void;
-    doPrepare: () => any;
+    doPrepare: (signal: AbortSignalLike) => any;
+
+    /**
+     * Whether `doPrepare` is overridden and declares a parameter, so that it needs to receive an abort signal.
+     */
+    doPrepareUsesSignal: boolean;
     doRender: (arg: RenderArgs, pr: PrepareResult) => any;
     doRenderPending: (arg: RenderArgs) => any;
     doRenderError: (arg: RenderArgs, error: any) => any;
     onCachedRender: (renderResult: RenderResult) => void;
+    onRendered: (renderResult: RenderResult, prevRenderResult: RenderResult | null) => void;
+    onCommit: (renderResult: RenderResult) => void;
+
+    /**
+     * Whether `onRendered` or `onCommit` are overridden, so that the component needs to be queued for them.
+     */
+    hasCommitHooks: boolean;
+
     shouldPrepare: (changedAttrs: ReadonlySet<string>) => boolean;
     shouldRender: (arg: RenderArgs, pr: PrepareResult) => boolean;
     shouldWaitForChildren: () => boolean;
     shouldInterruptRender: (generation: number, time: number, components: number) => boolean;
+    getPrepareTimeout: () => number | null;
+    getPrepareRetryPolicy: () => PrepareRetryPolicy | null;
+    shouldKeepPreviousResultWhilePreparing: () => boolean;
+
+    /**
+     * Computed attributes declared on the component class (see `Component.computed`).
+     */
+    computed: ComputedAttributes | null;
 
     constructor(component: AnyComponent | RebackVirtualMethods<PrepareResult, RenderArgs, RenderResult, ContextType>) {
         this.onAppear = component.onAppear;
@@ -1228,14 +2969,26 @@ class RebackVirtualMethods<PrepareResult, RenderArgs, RenderResult, ContextType
         this.getContextModifications = component.getContextModifications;
         this.onReceiveContext = component.onReceiveContext;
         this.doPrepare = component.doPrepare;
+        this.doPrepareUsesSignal = this.doPrepare !== Component.prototype.doPrepare && this.doPrepare.length > 0;
         this.doRender = component.doRender;
         this.doRenderPending = component.doRenderPending;
         this.doRenderError = component.doRenderError;
         this.onCachedRender = component.onCachedRender;
+        this.onRendered = component.onRendered;
+        this.onCommit = component.onCommit;
+        this.hasCommitHooks =
+            this.onRendered !== Component.prototype.onRendered || this.onCommit !== Component.prototype.onCommit;
         this.shouldPrepare = component.shouldPrepare;
         this.shouldRender = component.shouldRender;
         this.shouldWaitForChildren = component.shouldWaitForChildren;
         this.shouldInterruptRender = component.shouldInterruptRender;
+        this.getPrepareTimeout = component.getPrepareTimeout;
+        this.getPrepareRetryPolicy = component.getPrepareRetryPolicy;
+        this.shouldKeepPreviousResultWhilePreparing = component.shouldKeepPreviousResultWhilePreparing;
+        this.computed =
+            component instanceof RebackVirtualMethods
+                ? component.computed
+                : parseComputedAttributes((component.constructor as typeof Component).computed);
     }
 
     clone() {
@@ -1257,17 +3010,72 @@ type RootData = {
     onRequestRender: (() => void) | null;
     interruptGeneration: number;
     componentCount: number;
-    needsRenderTimeout: ScheduleID | null;
+    needsRenderTimeout: ScheduledTask | null;
+
+    /**
+     * Highest priority of the render requests batched in `needsRenderTimeout`.
+     */
+    needsRenderPriority: PriorityLevel;
+
+    /**
+     * Scheduler used for this root component, or `null` to use the global scheduler.
+     */
+    scheduler: Scheduler | null;
 };
 
 /**
  * Data that's relatively uncommon.
  * Note that this includes another indirection to RootData.
  */
+type AttributeWaiter = {value: any; resolve: () => void};
+
+type PredicateWaiter = {
+    predicate: (state: any) => boolean;
+
+    /**
+     * Removes the waiter and resolves its promise, or rejects it if `hasError` is set.
+     */
+    settle: (hasError: boolean, error?: any) => void;
+};
+
 type UncommonData = {
     rootData: null | RootData;
-    stateWaiters: {[name: string]: Array<{value: any; resolve: () => void} | null>};
+    stateWaiters: {[name: string]: AttributeWaiter[]};
+
+    /**
+     * Waiters created by `whenState`, until their predicate is satisfied or they time out or are aborted.
+     */
+    predicateWaiters: Set<PredicateWaiter> | null;
     renderError: any;
+    effects: Map<string, Effect> | null;
+    resources: Set<OwnedResource> | null;
+
+    /**
+     * Controller for the signal passed to a pending (or aborted) preparation.
+     */
+    prepareAbortController: AbortControllerLike | null;
+
+    /**
+     * Timeout rejecting a pending preparation (see `getPrepareTimeout`).
+     */
+    prepareTimeout: ScheduledTask | null;
+
+    prepareRetry: PrepareRetry | null;
+
+    /**
+     * Last successful render of a component that keeps its previous result while preparing
+     * (see `shouldKeepPreviousResultWhilePreparing`).
+     */
+    lastRenderEntry: CacheEntry<any> | null;
+
+    memos: Map<string, Memo> | null;
+
+    /**
+     * Values of computed attributes (see `Component.computed`) that have been computed and not invalidated since.
+     */
+    computedValues: Map<string, {value: any; isDirty: boolean}> | null;
+
+    watchers: Set<Watcher> | null;
 };
 
 function getUncommonData(data: AnyInternalData): UncommonData {
@@ -1276,7 +3084,17 @@ function getUncommonData(data: AnyInternalData): UncommonData {
         result = data.uncommonData = {
             rootData: null,
             stateWaiters: {},
-            renderError: null
+            predicateWaiters: null,
+            renderError: null,
+            effects: null,
+            resources: null,
+            prepareAbortController: null,
+            prepareTimeout: null,
+            prepareRetry: null,
+            lastRenderEntry: null,
+            memos: null,
+            computedValues: null,
+            watchers: null
         };
     }
     return result;
@@ -1290,7 +3108,9 @@ function getRootData(data: AnyInternalData): RootData {
             onRequestRender: null,
             interruptGeneration: 0,
             componentCount: 0,
-            needsRenderTimeout: null
+            needsRenderTimeout: null,
+            needsRenderPriority: Priority.NORMAL,
+            scheduler: null
         };
     }
     return rootData;
@@ -1306,8 +3126,21 @@ type ChildrenData = {
     renderedChildren: Children;
     modifiedPrepareContextCache: {base?: any; modifications?: any; result?: any};
     modifiedContextCache: {base?: any; modifications?: any; result?: any};
+
+    /**
+     * Children created using `child`, by class and key.
+     */
+    keyedChildren: Map<Function, Map<ChildKey, AnyComponent>> | null;
+
+    /**
+     * Keyed children requested during the last preparation and during the last (fresh) render, respectively.
+     */
+    keyedChildrenInPrepare: Set<AnyComponent> | null;
+    keyedChildrenInRender: Set<AnyComponent> | null;
 };
 
+export type ChildKey = string | number;
+
 function getChildrenData(data: AnyInternalData): ChildrenData {
     let result = data.childrenData;
     if (!result) {
@@ -1315,7 +3148,10 @@ function getChildrenData(data: AnyInternalData): ChildrenData {
             prepareChildren: new Map(),
             renderedChildren: new Map(),
             modifiedPrepareContextCache: {},
-            modifiedContextCache: {}
+            modifiedContextCache: {},
+            keyedChildren: null,
+            keyedChildrenInPrepare: null,
+            keyedChildrenInRender: null
         };
     }
     return result;
@@ -1323,8 +3159,11 @@ function getChildrenData(data: AnyInternalData): ChildrenData {
 
 type RenderAnalysisData = {
     isInterrupted?: boolean;
+    prepareAttempt?: number;
+    prepareRetryErrors?: any[];
     recursionLimitReached?: boolean;
     renderedAsError?: boolean;
+    renderedStale?: boolean;
     renderError?: any;
     renderPending?: boolean;
     renderPendingThrown?: any;
@@ -1476,13 +3315,53 @@ export default class Component<
      */
     static methodsCache: RebackVirtualMethods<any, any, any, any>;
 
+    /**
+     * Computed attributes, declared on a component class as a map from attribute names to the names of the
+     * attributes they are computed from, followed by a function computing them, e.g.
+     * `static computed = {fullName: ['first', 'last', (first, last) => first + ' ' + last]}`.
+     * Computed attributes are read using `get` and computed lazily. Once computed, they are only recomputed
+     * when they are read after any of their inputs changed.
+     */
+    static computed?: {[name: string]: ComputedDeclaration};
+
     /**
      * Set a scheduler function (default: `setTimeout`).
      * This should only be used for testing purposes.
+     * The scheduler function only receives a delay, so priorities are mapped to delays (see `FunctionScheduler`).
+     * @deprecated Use `setDefaultScheduler` instead.
      */
     static setScheduler(schedulerFunc: SchedulerFunc, cancelScheduleFunc: CancelScheduleFunc) {
-        scheduler = schedulerFunc;
-        cancelSchedule = cancelScheduleFunc;
+        Component.setDefaultScheduler(new FunctionScheduler(schedulerFunc, cancelScheduleFunc));
+    }
+
+    /**
+     * Sets the timeout (in milliseconds) for preparations of components that don't override `getPrepareTimeout`.
+     * @param timeout Timeout, or `null` for no timeout (the default).
+     */
+    static setDefaultPrepareTimeout(timeout: number | null) {
+        defaultPrepareTimeout = timeout;
+    }
+
+    /**
+     * Sets a handler for errors that are not handled by any component, i.e. errors escaping `renderRoot`
+     * (which are still thrown after calling the handler) and asynchronous preparation errors of components
+     * that are not part of a mounted component tree (and hence won't be rendered).
+     * @param handler Handler, or `null` to remove the handler.
+     */
+    static setUncaughtErrorHandler(handler: UncaughtErrorHandler | null) {
+        uncaughtErrorHandler = handler;
+    }
+
+    /**
+     * Sets the scheduler used by all root components that don't specify their own scheduler
+     * (via the `scheduler` option of `renderRoot` or `setRenderRequestCallback`).
+     */
+    static setDefaultScheduler(scheduler: Scheduler) {
+        globalScheduler = scheduler;
+    }
+
+    static getDefaultScheduler(): Scheduler {
+        return globalScheduler;
     }
 
     static render<Args, ComponentContextType extends Context>(
@@ -1497,6 +3376,121 @@ export default class Component<
         return renderState.isRenderInterrupted;
     }
 
+    /**
+     * Immediately fires all pending render requests on root components
+     * (invoking the callbacks registered with `setRenderRequestCallback`), instead of waiting for their schedulers.
+     * This also re-renders components that have been interrupted in a previous render pass.
+     * Render requests made while flushing are scheduled as usual.
+     * @returns The root components whose render requests were fired.
+     */
+    static flushPendingRenders(): AnyComponent[] {
+        const roots: Set<AnyComponent> = new Set();
+        interruptedComponents.forEach(item => {
+            roots.add(item.root);
+        });
+        pendingTasks.forEach(task => {
+            const target = task.target;
+            const uncommonData = target ? target._reback.uncommonData : null;
+            if (target && uncommonData && uncommonData.rootData && uncommonData.rootData.needsRenderTimeout === task) {
+                roots.add(target);
+            }
+        });
+        const result: AnyComponent[] = [];
+        roots.forEach(root => {
+            if (_flushRender(root, root._reback)) {
+                result.push(root);
+            }
+        });
+        return result;
+    }
+
+    /**
+     * Returns all mounted root components, i.e. components that have been rendered using `renderRoot`
+     * and not been unrendered (or mounted into another component) since.
+     * Roots are returned in the order in which they were mounted.
+     */
+    static getRoots(): AnyComponent[] {
+        const roots: AnyComponent[] = [];
+        mountedRoots.forEach((ref, id) => {
+            const root = ref.deref();
+            if (root) {
+                roots.push(root);
+            } else {
+                // The root has been garbage-collected without being unrendered.
+                mountedRoots.delete(id);
+            }
+        });
+        return roots;
+    }
+
+    /**
+     * Registers a listener that is notified whenever a root component is mounted (by its first `renderRoot`)
+     * or unmounted (by `unrenderRoot`, or by being mounted into another component).
+     * @returns A function that removes the listener again.
+     */
+    static addRootListener(listener: RootListener): () => void {
+        rootListeners.add(listener);
+        return () => {
+            rootListeners.delete(listener);
+        };
+    }
+
+    /**
+     * Registers a listener that is notified whenever a render pass of a root component (via `renderRoot`)
+     * starts and ends. `onEnd` is also called if the render pass throws an error.
+     * @returns A function that removes the listener again.
+     */
+    static addRenderPassListener(listener: RenderPassListener): () => void {
+        renderPassListeners.add(listener);
+        return () => {
+            renderPassListeners.delete(listener);
+        };
+    }
+
+    /**
+     * Forces all mounted root components to render.
+     * @param options Options passed on to `forceRender`.
+     */
+    static forceRenderAllRoots(options?: {priority?: PriorityLevel}) {
+        Component.getRoots().forEach(root => {
+            root.forceRender(options);
+        });
+    }
+
+    /**
+     * Unrenders all mounted root components.
+     */
+    static unrenderAllRoots() {
+        Component.getRoots().forEach(root => {
+            root.unrenderRoot();
+        });
+    }
+
+    /**
+     * Runs a function, batching all state changes made by it.
+     * Change handlers and state waiters are still called right away, but components whose state changed are only
+     * forced to render once the (outermost) batch is finished, with a single render request per root component.
+     * @param fn Function to run.
+     * @returns The return value of `fn`.
+     */
+    static batch<T>(fn: () => T): T {
+        ++batchDepth;
+        try {
+            return fn();
+        } finally {
+            try {
+                // Watchers are notified while still batching, so that their own state changes are batched as well.
+                while (batchDepth === 1 && batchedStateChanges.size) {
+                    _flushBatchedStateChanges();
+                }
+            } finally {
+                if (--batchDepth === 0 && batchedComponents.size) {
+                    _flushBatch();
+                }
+            }
+        }
+    }
+
     constructor(...args: any[]) {
         const id = ++idCounter;
         this.cid = `c${id}`;
@@ -1534,6 +3528,8 @@ export default class Component<
             this.initialize(...args);
             this.postInitialize();
         } catch (error) {
+            // The component is not mounted yet, but it is usually created while its future parent is rendering.
+            annotateComponentStack(error, this, getCurrentRenderParent());
             getUncommonData(data).renderError = error;
             // Remember that an error happened during initialization; we don't call any of the lifecycle hooks
             // (onAppear, onMount, onReceiveContext, onUnmount, onDisappear) in that case, since they should be able
@@ -1556,6 +3552,7 @@ export default class Component<
             DEBUG_REBACK && logger.warn('Trying to unrender a non-top-level component');
         } else {
             _unmountFromParent(this, data, null);
+            _unregisterRoot(this);
         }
     }
 
@@ -1592,6 +3589,21 @@ export default class Component<
         return _getBoundContext(data);
     }
 
+    /**
+     * Returns the child component with the given class and key, to be rendered during this component's
+     * preparation or render. The same instance is returned for the same class and key across render passes;
+     * a new instance is created (using the given initialization arguments) if there is none yet.
+     * Children that are requested neither during the last preparation nor during the last render are released.
+     * @param ChildClass Class of the child.
+     * @param key Key identifying the child among the children of the same class.
+     * @param initArgs Arguments passed to the constructor (and hence `initialize`) when creating the child.
+     */
+    child<C extends AnyComponent>(ChildClass: new () => C, key: ChildKey): C;
+    child<C extends AnyComponent, A extends any[]>(ChildClass: new (...args: A) => C, key: ChildKey, initArgs: A): C;
+    child(ChildClass: new (...args: any[]) => AnyComponent, key: ChildKey, initArgs: any[] = []): AnyComponent {
+        return _getKeyedChild(this._reback, ChildClass, key, initArgs);
+    }
+
     getModifiedContext(): ContextType {
         // Cache the previously generated context.
         // If this parent's context and its intended modifications stay the same,
@@ -1649,6 +3661,14 @@ export default class Component<
         return !!(this._reback.flags & FLAG_PREPARED);
     }
 
+    /**
+     * Returns whether this component is currently rendered using its previous render result,
+     * because its preparation is pending (see `shouldKeepPreviousResultWhilePreparing`).
+     */
+    isShowingStaleResult(): boolean {
+        return !!(this._reback.flags & FLAG_SHOWING_STALE_RESULT);
+    }
+
     pending() {
         if (DEBUG_REBACK) {
             return new RenderPending({source: this});
@@ -1707,12 +3727,17 @@ export default class Component<
         data.flags &= ~FLAG_AVOID_RENDER_AFTER_RENDER;
     }
 
-    forceRender(options?: {notDuringRender?: boolean}) {
-        _forceRender(this, this._reback, (options && options.notDuringRender) || false);
+    /**
+     * Invalidates the render cache of this component and its ancestors and requests a new render pass.
+     * @param options Additional options: whether to avoid another render during this component's render phase,
+     * and the priority of the resulting render request (one of the `Priority` values, default: `Priority.NORMAL`).
+     */
+    forceRender(options?: {notDuringRender?: boolean; priority?: PriorityLevel}) {
+        _forceRender(this, this._reback, (options && options.notDuringRender) || false, getPriorityOption(options));
     }
 
-    forcePrepare() {
-        _forcePrepare(this, this._reback);
+    forcePrepare(options?: {priority?: PriorityLevel}) {
+        _forcePrepare(this, this._reback, getPriorityOption(options));
     }
 
     whenAttributeHasValue(name: string, value: any) {
@@ -1732,6 +3757,76 @@ export default class Component<
         });
     }
 
+    /**
+     * Returns a promise that resolves to the component's state once the given predicate returns true for it.
+     * The predicate is checked right away and again after every state change.
+     * It resolves synchronously if the predicate is already satisfied.
+     * @param predicate Function receiving the component's state.
+     * @param options Time (in milliseconds) after which the promise is rejected with a `StateWaitTimeoutError`
+     * (scheduled using the scheduler of the component's root), and a signal rejecting the promise when aborted
+     * (with the signal's reason, or an `AbortError`).
+     */
+    whenState(
+        predicate: (state: State) => boolean,
+        options?: {timeout?: number; signal?: AbortSignalLike}
+    ): SyncPromise<State> {
+        return new SyncPromise((resolve, reject) => {
+            const signal = options && options.signal;
+            if (signal && signal.aborted) {
+                reject(_getAbortError(signal));
+                return;
+            }
+            if (predicate(this.state)) {
+                resolve(this.state);
+                return;
+            }
+            const data = this._reback;
+            const uncommonData = getUncommonData(data);
+            const waiters = uncommonData.predicateWaiters || (uncommonData.predicateWaiters = new Set());
+            let timeoutTask: ScheduledTask | null = null;
+            const onAbort = () => {
+                if (signal) {
+                    waiter.settle(true, _getAbortError(signal));
+                }
+            };
+            const waiter: PredicateWaiter = {
+                predicate,
+                settle: (hasError, error) => {
+                    waiters.delete(waiter);
+                    if (timeoutTask) {
+                        cancelTask(timeoutTask);
+                        timeoutTask = null;
+                    }
+                    if (signal) {
+                        signal.removeEventListener('abort', onAbort);
+                    }
+                    if (hasError) {
+                        reject(error);
+                    } else {
+                        resolve(this.state);
+                    }
+                }
+            };
+            waiters.add(waiter);
+            const timeout = options && options.timeout;
+            if (timeout !== undefined && timeout !== null) {
+                timeoutTask = scheduleTimer(
+                    'state wait timeout',
+                    this,
+                    getSchedulerForComponent(data),
+                    () => {
+                        timeoutTask = null;
+                        waiter.settle(true, new StateWaitTimeoutError(this, timeout));
+                    },
+                    timeout
+                );
+            }
+            if (signal) {
+                signal.addEventListener('abort', onAbort);
+            }
+        });
+    }
+
     /**
      * Returns a promise that resolves to the component's context,
      * once the component has received its context.
@@ -1820,9 +3915,11 @@ export default class Component<
      * This is essentially a faster alternative to Backbone attributes, with an API similar to React's `setState`.
      * @param values Dictionary of values to set. Existing attributes that don't occur in the given values are
      *               left unchanged.
+     * @param options Additional options: the priority of the resulting render request (one of the `Priority` values,
+     *                default: `Priority.NORMAL`).
      */
-    setState<K extends keyof State>(values: {[P in K]: State[P] | undefined}) {
-        _setState(this, this._reback, this.state, this.onChange, values as any);
+    setState<K extends keyof State>(values: {[P in K]: State[P] | undefined}, options?: {priority?: PriorityLevel}) {
+        _setState(this, this._reback, this.state, this.onChange, values as any, getPriorityOption(options));
     }
 
     /**
@@ -1836,27 +3933,31 @@ export default class Component<
      * `triggerEvent` and `onEvent` should be preferred over Backbone's event mechanism when possible
      * (especially in performance-critical code), since it avoids a lot of overhead with managing various lists of event
      * listeners etc.
+     * State changes made by event handlers are batched (see `Component.batch`).
      * @param name Name of the event to trigger.
      * @param event Payload to pass to the event handler as its first argument.
      * @param options Additional options: whether the event should bubble up or not.
      */
     triggerEvent(name: string, event?: any, options?: {noBubble?: boolean}) {
-        let component: AnyComponent | null = this;
-        const noBubble = options && options.noBubble;
-        do {
-            const eventListener = component.onEvent && component.onEvent[name];
-            if (eventListener) {
-                eventListener.call(component, event, this);
-            }
-            const anyEventListener = component.onAnyEvent;
-            if (anyEventListener) {
-                anyEventListener.call(component, name, event, this);
-            }
-            if (!component.shouldPropagateEvent(name, event)) {
-                break;
-            }
-            component = component.getParent();
-        } while (component && !noBubble);
+        // State changes in event handlers are batched.
+        Component.batch(() => {
+            let component: AnyComponent | null = this;
+            const noBubble = options && options.noBubble;
+            do {
+                const eventListener = component.onEvent && component.onEvent[name];
+                if (eventListener) {
+                    eventListener.call(component, event, this);
+                }
+                const anyEventListener = component.onAnyEvent;
+                if (anyEventListener) {
+                    anyEventListener.call(component, name, event, this);
+                }
+                if (!component.shouldPropagateEvent(name, event)) {
+                    break;
+                }
+                component = component.getParent();
+            } while (component && !noBubble);
+        });
     }
 
     shouldPropagateEvent(name: string, event: any) {
@@ -1871,8 +3972,30 @@ export default class Component<
         }
     }
 
+    /**
+     * Returns the value of a state attribute or of a computed attribute (see `Component.computed`).
+     */
     get(name: string) {
-        return this.state[name];
+        return _getAttribute(this, this._reback, name);
+    }
+
+    /**
+     * Registers a handler that is called whenever some of the given state attributes change.
+     * The handler is called once per `setState` call, with all watched attributes that changed in that call.
+     * Within `Component.batch` (e.g. in event handlers), it is called once at the end of the batch,
+     * with the values from before the batch as old values.
+     * @param names Names of the watched attributes, or `'*'` to watch all attributes.
+     * @param handler Function receiving the names of the changed attributes and their new and old values.
+     * @returns Function that unsubscribes the handler.
+     */
+    watch(names: ReadonlyArray<string> | '*', handler: StateWatcher): () => void {
+        const uncommonData = getUncommonData(this._reback);
+        const watchers = uncommonData.watchers || (uncommonData.watchers = new Set());
+        const watcher: Watcher = {names: names === '*' ? null : new Set(names), handler};
+        watchers.add(watcher);
+        return () => {
+            watchers.delete(watcher);
+        };
     }
 
     useContextCachesFromComponent(otherComponent: AnyComponent) {
@@ -1892,9 +4015,27 @@ export default class Component<
         }
     }
 
-    setRenderRequestCallback(callback: () => any) {
+    /**
+     * Immediately fires a pending render request on this root component
+     * (invoking the callback registered with `setRenderRequestCallback`), instead of waiting for its scheduler.
+     * @returns Whether there was a pending render request.
+     */
+    flushRender(): boolean {
+        return _flushRender(this, this._reback);
+    }
+
+    /**
+     * Sets the function to call when this root component needs to be rendered again.
+     * Render requests are batched using the root's scheduler.
+     * @param callback Function that is expected to (eventually) call `renderRoot`.
+     * @param options Additional options: the scheduler to use for this root component.
+     */
+    setRenderRequestCallback(callback: () => any, options?: {scheduler?: Scheduler}) {
         const rootData = getRootData(this._reback);
         rootData.onRequestRender = callback;
+        if (options && options.scheduler) {
+            rootData.scheduler = options.scheduler;
+        }
     }
 
     // --------------------------------------------------
@@ -1943,7 +4084,14 @@ export default class Component<
      */
     onReceiveContext(prevContext?: ContextType) {}
 
-    doPrepare(): any {
+    /**
+     * Prepares the component, e.g. by loading data. May return a promise, in which case the component
+     * is pending until the promise resolves.
+     * @param signal Signal that is aborted when this preparation is superseded, i.e. when the prepare cache
+     * is invalidated, the component is unmounted, or a new preparation starts.
+     * @returns The prepare result, which is passed to `doRender`.
+     */
+    doPrepare(signal: AbortSignalLike): any {
         return null;
     }
 
@@ -1958,6 +4106,128 @@ export default class Component<
 
     onCachedRender(renderResult: RenderResult) {}
 
+    /**
+     * Called after the outermost render pass (initiated by `renderRoot`) in which this component rendered
+     * has finished successfully and without being interrupted. Components are notified bottom-up,
+     * i.e. children before their parents. Not called if the component ended up pending.
+     * @param renderResult The result of this render pass.
+     * @param prevRenderResult The render result before this render pass (or `null` if it didn't render before).
+     */
+    onRendered(renderResult: RenderResult, prevRenderResult: RenderResult | null) {}
+
+    /**
+     * Like `onRendered`, but called when the component reused a cached render result.
+     */
+    onCommit(renderResult: RenderResult) {}
+
+    /**
+     * Declares an effect, i.e. some setup (such as adding an event listener or starting a timer) that needs
+     * to be cleaned up again. Can only be called from `doPrepare` or `doRender`.
+     * The effect is set up after the render pass is committed (cf. `onRendered`), whenever its dependencies
+     * changed since the last setup. The function returned by `setup` is called before setting the effect up
+     * again, and when the component is unmounted or disappears (depending on `options.cleanupOn`).
+     * @param key Key identifying the effect within this component.
+     * @param deps Dependencies of the effect, compared element-wise using `sameValueZero`.
+     * @param setup Function setting up the effect and returning an (optional) cleanup function.
+     * @param options
+     */
+    effect(key: string, deps: ReadonlyArray<any>, setup: () => EffectCleanup | void, options?: EffectOptions) {
+        _declareEffect(this._reback, key, deps, setup, options);
+    }
+
+    /**
+     * Returns a memoized value, computing it again only if any of its dependencies changed (compared using
+     * `sameValueZero`). Memoized values are also cleared when the component's prepare result is invalidated
+     * (e.g. by `forcePrepare`, a context change, or unmounting).
+     * @param name Name identifying the value within this component.
+     * @param deps Values the computation depends on.
+     * @param compute Function computing the value.
+     */
+    memo<T>(name: string, deps: ReadonlyArray<any>, compute: () => T): T {
+        return _memo(this._reback, name, deps, compute);
+    }
+
+    /**
+     * Makes this component own a resource, which is disposed when the component disappears or is destroyed.
+     * @param disposable Function disposing the resource, or an object with a `dispose` method.
+     * @returns The given disposable.
+     */
+    ownResource<T extends Disposable>(disposable: T): T {
+        const resource: Disposable = disposable;
+        const dispose = typeof resource === 'function' ? resource : () => resource.dispose();
+        _own(this._reback, this, 'disposable', dispose);
+        return disposable;
+    }
+
+    /**
+     * Calls a function after a delay, unless the component disappears or is destroyed before.
+     * The timeout is scheduled using the scheduler of the component's root (see `RenderOptions.scheduler`).
+     * @param func Function to call (with this component as `this`).
+     * @param delay Delay in milliseconds.
+     * @returns A function that cancels the timeout.
+     */
+    ownTimeout(func: () => void, delay: number = 0): () => void {
+        const data = this._reback;
+        let task: ScheduledTask | null = null;
+        const cancel = () => {
+            if (task) {
+                cancelTask(task);
+                task = null;
+            }
+        };
+        const description = `timeout (${delay} ms)`;
+        const resource = _own(data, this, description, cancel);
+        task = scheduleTimer(
+            description,
+            this,
+            getSchedulerForComponent(data),
+            () => {
+                task = null;
+                _release(data, resource);
+                func.call(this);
+            },
+            delay
+        );
+        return () => {
+            _release(data, resource);
+            cancel();
+        };
+    }
+
+    /**
+     * Subscribes to a source (e.g. an external store), unsubscribing when the component disappears or is destroyed.
+     * @param source Object with a `subscribe` method.
+     * @param handler Function receiving the values of the source.
+     * @returns A function that unsubscribes right away.
+     */
+    ownSubscription<T>(source: Subscribable<T>, handler: (value: T) => void): () => void {
+        const data = this._reback;
+        const subscription = source.subscribe(handler);
+        const unsubscribe = typeof subscription === 'function' ? subscription : () => subscription.unsubscribe();
+        const resource = _own(data, this, 'subscription', unsubscribe);
+        return () => {
+            _release(data, resource);
+            unsubscribe();
+        };
+    }
+
+    /**
+     * Destroys this component, disposing all resources it owns and cleaning up its effects.
+     * A root component is also unrendered. Non-root components should not be rendered by their parents anymore.
+     * Afterwards, the component counts as disappeared, so acquiring further resources causes a warning.
+     */
+    destroyComponent() {
+        const data = this._reback;
+        if (this.isRoot()) {
+            this.unrenderRoot();
+        } else if (data.flags & FLAG_MOUNTED) {
+            DEBUG && logger.warn(d`Destroying component ${this} which is still mounted into ${data._renderParent}`);
+        }
+        _cleanupEffects(this, data, false);
+        _disposeResources(this, data);
+        data.flags |= FLAG_DISAPPEARED;
+    }
+
     onAnyEvent(name: string, event: any, target: AnyComponent) {}
 
     shouldPrepare(changedAttributes: ReadonlySet<string>) {
@@ -1974,10 +4244,35 @@ export default class Component<
         return false;
     }
 
+    /**
+     * Determines whether the component keeps rendering its previous (successful) render result, including its
+     * children, while a new preparation is pending, instead of being pending itself.
+     */
+    shouldKeepPreviousResultWhilePreparing(): boolean {
+        return false;
+    }
+
     shouldInterruptRender(generation: number, time: number, components: number): boolean {
         return false;
     }
 
+    /**
+     * Returns the time (in milliseconds) after which a pending preparation of this component is rejected
+     * with a `PrepareTimeoutError`, or `null` for no timeout.
+     * Defaults to the value set by `Component.setDefaultPrepareTimeout`.
+     */
+    getPrepareTimeout(): number | null {
+        return defaultPrepareTimeout;
+    }
+
+    /**
+     * Returns the policy for retrying a preparation that failed asynchronously (or timed out),
+     * or `null` to not retry (the default).
+     */
+    getPrepareRetryPolicy(): PrepareRetryPolicy | null {
+        return null;
+    }
+
     interruptRendering() {
         return RENDER_INTERRUPT;
     }
@@ -1996,21 +4291,97 @@ export default class Component<
         renderState.isRendering = true;
         renderState.lastRenderWasInterrupted = !!(data.flags & FLAG_RENDER_ROOT_WAS_INTERRUPTED);
         const rootData = getRootData(data);
+        if (options.scheduler) {
+            rootData.scheduler = options.scheduler;
+        }
         renderState.lastRenderComponentCount = rootData.componentCount;
         renderState.renderInterruptGeneration = rootData.interruptGeneration;
-        renderState.renderStartTime = now();
+        const startTime = now();
+        const interruptGeneration = rootData.interruptGeneration;
+        renderState.renderStartTime = startTime;
+        const wasMounted = !!(data.flags & FLAG_MOUNTED);
+        let isSuccessful = false;
+        let uncaughtError: any = undefined;
         try {
-            return this.render(arg, options);
+            renderPassListeners.forEach(listener => {
+                if (listener.onStart) {
+                    _callListener(this, () => {
+                        listener.onStart && listener.onStart({root: this, startTime, interruptGeneration});
+                    });
+                }
+            });
+            const result = this.render(arg, options);
+            isSuccessful = true;
+            return result;
+        } catch (error) {
+            if (!(error instanceof RenderPending)) {
+                uncaughtError = error;
+            }
+            throw error;
         } finally {
             const isInterrupted = renderState.isRenderInterrupted;
+            const renderComponentCount = renderState.renderComponentCount;
             if (isInterrupted) {
                 data.flags |= FLAG_RENDER_ROOT_WAS_INTERRUPTED;
             } else {
                 data.flags &= ~FLAG_RENDER_ROOT_WAS_INTERRUPTED;
             }
             rootData.interruptGeneration = isInterrupted ? renderState.renderInterruptGeneration : 0;
-            rootData.componentCount = renderState.renderComponentCount;
+            rootData.componentCount = renderComponentCount;
             restoreState(oldState);
+            if (!wasMounted && this.isRoot()) {
+                _registerRoot(this);
+            }
+            // Take the queued commit hooks now, but only run them at the very end,
+            // after any deferred tasks have been submitted.
+            let commits: Map<AnyInternalData, CommitEntry> | null = null;
+            if (!renderState.isRendering && commitQueue.size) {
+                commits = commitQueue;
+                commitQueue = new Map();
+            }
+            let keyedChildrenReleases: Set<AnyInternalData> | null = null;
+            if (!renderState.isRendering && keyedChildrenReleaseQueue.size) {
+                keyedChildrenReleases = keyedChildrenReleaseQueue;
+                keyedChildrenReleaseQueue = new Set();
+            }
+            if (renderPassListeners.size) {
+                const duration = now() - startTime;
+                renderPassListeners.forEach(listener => {
+                    if (listener.onEnd) {
+                        _callListener(this, () => {
+                            listener.onEnd &&
+                                listener.onEnd({
+                                    root: this,
+                                    startTime,
+                                    interruptGeneration,
+                                    duration,
+                                    renderComponentCount,
+                                    isInterrupted
+                                });
+                        });
+                    }
+                });
+            }
+            try {
+                if (!renderState.isRendering && deferredTasks.length) {
+                    _submitDeferredTasks();
+                }
+            } finally {
+                if (keyedChildrenReleases) {
+                    _releaseQueuedKeyedChildren(keyedChildrenReleases);
+                }
+                if (commits) {
+                    if (isSuccessful && !isInterrupted) {
+                        _runCommitHooks(commits);
+                    } else {
+                        DEBUG_REBACK && logger.debug(`Discarding commit hooks of an unsuccessful render pass`);
+                    }
+                }
+                // Errors escaping a nested render pass might still be handled by the surrounding render pass.
+                if (uncaughtError !== undefined && !renderState.isRendering) {
+                    _reportUncaughtError(uncaughtError, this, this);
+                }
+            }
         }
     }
 
@@ -2046,10 +4417,7 @@ export default class Component<
     render(arg?: RenderArgs, options: RenderOptions<ContextType> = {}): RenderResult {
         DEBUG_REBACK && logger.debug(d`Rendering ${this}`);
         if (!renderState.isRendering) {
-            throw new Error(
-                `Rendering component ${this.toString()} outside \`Component.render\`. ` +
-                    'The outermost (root) component must be rendered using `Component.render(root)`.'
-            );
+            throw new RenderOutsidePassError(this);
         }
         const data = this._reback;
         if (DEBUG_REBACK) {
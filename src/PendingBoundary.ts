@@ -0,0 +1,146 @@
+import Component, {hasPendingDescendants} from './Component';
+import {isRenderPending} from './RenderPending';
+
+import type Context from './Context';
+
+/**
+ * - `content`: all descendants are ready, and the content is shown.
+ * - `delaying`: some descendant is pending, but the fallback is not shown yet.
+ * - `fallback`: the fallback is shown, and it has not been shown for its minimum duration yet.
+ * - `fallbackDone`: the fallback is shown, and it can be replaced by the content as soon as that is ready.
+ */
+type BoundaryPhase = 'content' | 'delaying' | 'fallback' | 'fallbackDone';
+
+/**
+ * Component rendering a fallback (e.g. a spinner) for a whole region until all components below it are prepared.
+ * Subclasses render the region in `doRenderContent` and the fallback in `doRenderFallback`.
+ *
+ * To avoid flashing the fallback for fast loads, it is only shown after `getFallbackDelay` milliseconds;
+ * until then, `doRenderWhileDelaying` is rendered (by default, the previous content, or `null` on the first load).
+ * Once shown, the fallback stays for at least `getMinFallbackDuration` milliseconds.
+ * The timers are scheduled using the scheduler of the root (see `Component#ownTimeout`).
+ * The phase of the boundary only advances when a render pass is committed (or when a timer fires),
+ * so interrupted or discarded render passes do not affect it.
+ */
+export default class PendingBoundary<
+    PrepareResult = void,
+    RenderArgs = void,
+    RenderResult = unknown,
+    State extends {[name: string]: any} = {},
+    ContextType extends Context = Context
+> extends Component<PrepareResult, RenderArgs, RenderResult | null, State, ContextType> {
+    /**
+     * Phase of the last committed render pass.
+     */
+    boundaryPhase: BoundaryPhase = 'content';
+
+    /**
+     * Last content that was rendered while all descendants were ready, or `null` if there is none yet.
+     */
+    lastContent: RenderResult | null = null;
+
+    /**
+     * Renders the content of the region. Pending children rendered here do not block this component;
+     * instead, the fallback is rendered while any of them (or their descendants) is pending.
+     * This also applies to children that are required to be ready (e.g. rendered using `renderRequired`):
+     * while they are pending, the fallback is rendered instead of the boundary itself being pending.
+     */
+    doRenderContent(arg: RenderArgs, prepareResult: PrepareResult): RenderResult | null {
+        return null;
+    }
+
+    /**
+     * Renders the fallback shown while the content is not ready yet.
+     */
+    doRenderFallback(arg: RenderArgs): RenderResult | null {
+        return null;
+    }
+
+    /**
+     * Renders the region while its content is pending but the fallback is not shown yet (see `getFallbackDelay`).
+     * By default, this keeps showing the last content that was ready, which is `null` on the first load.
+     */
+    doRenderWhileDelaying(arg: RenderArgs): RenderResult | null {
+        return this.lastContent;
+    }
+
+    /**
+     * Returns the time (in milliseconds) for which the content needs to be pending before the fallback is shown.
+     */
+    getFallbackDelay(): number {
+        return 0;
+    }
+
+    /**
+     * Returns the minimum time (in milliseconds) for which the fallback is shown once it is shown.
+     */
+    getMinFallbackDuration(): number {
+        return 0;
+    }
+
+    /**
+     * Returns whether the fallback is currently shown.
+     */
+    isShowingFallback(): boolean {
+        return this.boundaryPhase === 'fallback' || this.boundaryPhase === 'fallbackDone';
+    }
+
+    doRender(arg: RenderArgs, prepareResult: PrepareResult): RenderResult | null {
+        let content: RenderResult | null = null;
+        let isReady = true;
+        try {
+            content = this.doRenderContent(arg, prepareResult);
+        } catch (error) {
+            if (!isRenderPending(error)) {
+                throw error;
+            }
+            isReady = false;
+        }
+        // Children rendered pending in `doRenderContent` are mounted nevertheless, so their preparations go on.
+        isReady = isReady && !hasPendingDescendants(this);
+        let phase = this.boundaryPhase;
+        if (isReady) {
+            if (phase !== 'fallback') {
+                phase = 'content';
+            }
+        } else if (phase === 'content') {
+            phase = this.getFallbackDelay() > 0 ? 'delaying' : 'fallback';
+        }
+        if (phase === 'fallback' && this.getMinFallbackDuration() <= 0) {
+            phase = isReady ? 'content' : 'fallbackDone';
+        }
+        this.effect('boundaryPhase', [phase], () => {
+            this.boundaryPhase = phase;
+            let delay;
+            let nextPhase: BoundaryPhase;
+            if (phase === 'delaying') {
+                delay = this.getFallbackDelay();
+                nextPhase = 'fallback';
+            } else if (phase === 'fallback') {
+                delay = this.getMinFallbackDuration();
+                nextPhase = 'fallbackDone';
+            } else {
+                return;
+            }
+            return this.ownTimeout(() => {
+                if (this.boundaryPhase === phase) {
+                    this.boundaryPhase = nextPhase;
+                    // While the content is still pending, the fallback stays anyway.
+                    if (nextPhase === 'fallback' || !hasPendingDescendants(this)) {
+                        this.forceRender();
+                    }
+                }
+            }, delay);
+        });
+        if (phase === 'content') {
+            this.effect('lastContent', [content], () => {
+                this.lastContent = content;
+            });
+            return content;
+        }
+        if (phase === 'delaying') {
+            return this.doRenderWhileDelaying(arg);
+        }
+        return this.doRenderFallback(arg);
+    }
+}
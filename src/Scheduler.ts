@@ -0,0 +1,171 @@
+import globals, {TESTING} from './globals';
+
+/**
+ * Delay (in milliseconds) that stands for "the next animation frame" when passed to `Scheduler.schedule`.
+ */
+export const NEXT_FRAME = -1;
+
+/**
+ * Priorities ("lanes") of scheduled work, in increasing order of urgency.
+ * - `IDLE`: work that can wait until the browser is idle, e.g. preparing content that is not visible yet.
+ * - `NORMAL`: regular updates, batched until the next animation frame.
+ * - `USER_BLOCKING`: updates in direct response to user input (e.g. a keystroke), flushed in the next microtask.
+ */
+export const Priority = {
+    IDLE: 0,
+    NORMAL: 1,
+    USER_BLOCKING: 2
+} as const;
+
+export type PriorityLevel = typeof Priority[keyof typeof Priority];
+
+/**
+ * Time (in milliseconds) after which idle work is run even if the browser has not been idle in the meanwhile.
+ */
+const IDLE_TIMEOUT = 1000;
+
+/**
+ * Delay (in milliseconds) used for idle work when `requestIdleCallback` is not available (e.g. in Node).
+ */
+const IDLE_FALLBACK_DELAY = 50;
+
+/**
+ * ID for a scheduled task, which could be regular timeout, a requested animation frame, or an idle callback
+ * (or several of them, theoretically).
+ * This ID can be used to cancel the task.
+ * A value of 0 in any slot means that the respective type of scheduling has not been used.
+ * Tasks scheduled as microtasks cannot be cancelled and have all slots set to 0.
+ */
+export type ScheduleID = [
+    ReturnType<typeof setTimeout> | 0,
+    ReturnType<typeof requestAnimationFrame> | 0,
+    ReturnType<typeof requestIdleCallback> | 0
+];
+
+/**
+ * Strategy for running deferred work, such as batched render requests on a root component,
+ * re-rendering interrupted components, and calling `onDisappear` handlers.
+ * Each root component can use its own scheduler (see `RenderOptions.scheduler`).
+ */
+export interface Scheduler<ID = any> {
+    /**
+     * Schedules a function to be called.
+     * @param func Function to call.
+     * @param delay Time (in milliseconds) to wait, or `NEXT_FRAME` to wait for the next animation frame.
+     * @param priority Urgency of the task (one of the `Priority` values). Schedulers may run more urgent tasks
+     * earlier and less urgent tasks later than the requested delay. Defaults to `Priority.NORMAL`.
+     * @returns An ID that can be passed to `cancel`. Schedulers may also call `func` synchronously, before returning.
+     */
+    schedule(func: () => void, delay: number, priority?: PriorityLevel): ID;
+
+    /**
+     * Cancels a task that has been scheduled before and has not run yet.
+     * @param id ID returned by `schedule`.
+     */
+    cancel(id: ID): void;
+}
+
+/**
+ * Default scheduler, waiting for the next animation frame if the page is visible,
+ * or using a timeout of 100 ms if the page is hidden.
+ * User-blocking tasks run in the next microtask, and idle tasks wait for `requestIdleCallback`
+ * (falling back to a timeout if that is not available).
+ */
+export class AnimationFrameScheduler implements Scheduler<ScheduleID> {
+    schedule(func: () => void, delay: number = 0, priority: PriorityLevel = Priority.NORMAL): ScheduleID {
+        if (priority === Priority.USER_BLOCKING) {
+            Promise.resolve().then(func);
+            return [0, 0, 0];
+        }
+        if (priority === Priority.IDLE) {
+            if (globals.requestIdleCallback && !TESTING) {
+                return [0, 0, requestIdleCallback(func, {timeout: IDLE_TIMEOUT})];
+            }
+            return [setTimeout(func, Math.max(delay, IDLE_FALLBACK_DELAY)), 0, 0];
+        }
+        if (delay === NEXT_FRAME) {
+            // If requestAnimationFrame is not available and during testing, fall back to setTimeout
+            // (assuming ~60 fps).
+            if (globals.requestAnimationFrame && !TESTING) {
+                // If the page is hidden, requestAnimationFrame does not fire, so we use a timeout instead (see CLOUD-15123).
+                // Browsers might also throttle timeouts for background windows, but it's okay
+                // for background notebooks to load more slowly, as long as they load eventually.
+                // See https://developer.mozilla.org/en-US/docs/Web/API/Page_Visibility_API#Policies_in_place_to_aid_background_page_performance
+                // for more information.
+                if (globals.document && globals.document.hidden) {
+                    return [setTimeout(func, 100), 0, 0];
+                } else {
+                    return [0, requestAnimationFrame(func), 0];
+                }
+            } else {
+                return [setTimeout(func, 16), 0, 0];
+            }
+        }
+        return [setTimeout(func, delay), 0, 0];
+    }
+
+    cancel([timeoutID, animationFrameID, idleCallbackID]: ScheduleID) {
+        if (timeoutID) {
+            clearTimeout(timeoutID);
+        }
+        if (animationFrameID && globals.cancelAnimationFrame) {
+            cancelAnimationFrame(animationFrameID);
+        }
+        if (idleCallbackID && globals.cancelIdleCallback) {
+            cancelIdleCallback(idleCallbackID);
+        }
+    }
+}
+
+/**
+ * Scheduler that runs every task synchronously, unless it has a positive delay (e.g. a timeout of a preparation),
+ * in which case a regular timeout is used.
+ * This is useful for roots that should always be up-to-date right away, e.g. when exporting or printing.
+ */
+export class ImmediateScheduler implements Scheduler<ReturnType<typeof setTimeout> | null> {
+    schedule(func: () => void, delay: number, priority?: PriorityLevel): ReturnType<typeof setTimeout> | null {
+        if (delay > 0) {
+            return setTimeout(func, delay);
+        }
+        func();
+        return null;
+    }
+
+    cancel(id: ReturnType<typeof setTimeout> | null) {
+        if (id) {
+            clearTimeout(id);
+        }
+    }
+}
+
+/**
+ * Scheduler built from a pair of plain functions, as accepted by the (deprecated) `Component.setScheduler`.
+ * Since these functions only receive a delay, priorities are mapped to delays: user-blocking tasks run without delay
+ * (instead of waiting for the next frame), and idle tasks wait at least as long as idle work without
+ * `requestIdleCallback`.
+ */
+export class FunctionScheduler<ID> implements Scheduler<ID> {
+    scheduleFunc: (func: () => void, delay?: number) => ID;
+    cancelFunc: (id: ID) => void;
+
+    constructor(scheduleFunc: (func: () => void, delay?: number) => ID, cancelFunc: (id: ID) => void) {
+        this.scheduleFunc = scheduleFunc;
+        this.cancelFunc = cancelFunc;
+    }
+
+    schedule(func: () => void, delay: number, priority: PriorityLevel = Priority.NORMAL): ID {
+        if (priority === Priority.USER_BLOCKING) {
+            return this.scheduleFunc(func, 0);
+        }
+        if (priority === Priority.IDLE) {
+            return this.scheduleFunc(func, Math.max(delay, IDLE_FALLBACK_DELAY));
+        }
+        return this.scheduleFunc(func, delay);
+    }
+
+    cancel(id: ID) {
+        this.cancelFunc(id);
+    }
+}
+
+export const defaultScheduler: Scheduler = new AnimationFrameScheduler();
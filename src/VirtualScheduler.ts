@@ -0,0 +1,174 @@
+import Component from './Component';
+import {NEXT_FRAME, Priority} from './Scheduler';
+
+import type {Scheduler, PriorityLevel} from './Scheduler';
+
+/**
+ * How a task would have been scheduled by a real scheduler:
+ * in a microtask (user-blocking), a timeout, an animation frame, or an idle callback.
+ */
+export type VirtualTaskKind = 'microtask' | 'timeout' | 'frame' | 'idle';
+
+export type VirtualTaskInfo = {
+    id: number;
+    kind: VirtualTaskKind;
+    delay: number;
+    priority: PriorityLevel;
+
+    /**
+     * Virtual time (in milliseconds) at which the task is due.
+     */
+    time: number;
+};
+
+type VirtualTask = VirtualTaskInfo & {func: () => void};
+
+/**
+ * Maximum number of tasks `runAll` runs before it assumes that tasks keep scheduling each other indefinitely.
+ */
+const DEFAULT_MAX_TASKS = 1000;
+
+function compareTasks(a: VirtualTask, b: VirtualTask) {
+    // Idle tasks run after everything else that is due at the same time.
+    return a.time - b.time || +(a.kind === 'idle') - +(b.kind === 'idle') || a.id - b.id;
+}
+
+function describeTask({kind, delay, time}: VirtualTaskInfo) {
+    return `${kind} (delay: ${delay}, due at: ${time})`;
+}
+
+/**
+ * Scheduler operating on virtual time, for deterministic tests.
+ * Tasks are only run when the test explicitly advances time (`advance`, `runNextFrame`, `runAll`).
+ * Animation frames happen every `frameInterval` milliseconds of virtual time.
+ * Idle tasks are due after their delay, like timeouts, but they run after any other tasks due at the same time.
+ */
+export default class VirtualScheduler implements Scheduler<number> {
+    /**
+     * Current virtual time (in milliseconds).
+     */
+    now: number;
+
+    frameInterval: number;
+
+    tasks: VirtualTask[];
+
+    idCounter: number;
+
+    previousScheduler: Scheduler | null;
+
+    constructor({frameInterval = 16}: {frameInterval?: number} = {}) {
+        this.now = 0;
+        this.frameInterval = frameInterval;
+        this.tasks = [];
+        this.idCounter = 0;
+        this.previousScheduler = null;
+    }
+
+    schedule(func: () => void, delay: number = 0, priority: PriorityLevel = Priority.NORMAL): number {
+        const id = ++this.idCounter;
+        let kind: VirtualTaskKind;
+        let time;
+        if (priority === Priority.USER_BLOCKING) {
+            kind = 'microtask';
+            time = this.now;
+        } else if (delay === NEXT_FRAME) {
+            kind = 'frame';
+            time = this.getNextFrameTime();
+        } else {
+            kind = priority === Priority.IDLE ? 'idle' : 'timeout';
+            time = this.now + delay;
+        }
+        this.tasks.push({id, kind, delay, priority, time, func});
+        this.tasks.sort(compareTasks);
+        return id;
+    }
+
+    cancel(id: number) {
+        this.tasks = this.tasks.filter(task => task.id !== id);
+    }
+
+    getNextFrameTime(): number {
+        return (Math.floor(this.now / this.frameInterval) + 1) * this.frameInterval;
+    }
+
+    getPendingTasks(): VirtualTaskInfo[] {
+        return this.tasks.map(({id, kind, delay, priority, time}) => ({id, kind, delay, priority, time}));
+    }
+
+    hasPendingTasks(): boolean {
+        return this.tasks.length > 0;
+    }
+
+    /**
+     * Advances virtual time by the given number of milliseconds,
+     * running all tasks that become due (including tasks scheduled by those tasks) in order.
+     * @returns The number of tasks that were run.
+     */
+    advance(ms: number): number {
+        const target = this.now + ms;
+        let count = 0;
+        while (this.tasks.length && this.tasks[0].time <= target) {
+            const task = this.tasks.shift() as VirtualTask;
+            this.now = Math.max(this.now, task.time);
+            ++count;
+            task.func();
+        }
+        this.now = target;
+        return count;
+    }
+
+    /**
+     * Advances virtual time to the next animation frame, running all tasks due until then.
+     * @returns The number of tasks that were run.
+     */
+    runNextFrame(): number {
+        return this.advance(this.getNextFrameTime() - this.now);
+    }
+
+    /**
+     * Runs tasks (advancing virtual time as necessary) until there are no more pending tasks.
+     * @param maxTasks Maximum number of tasks to run, after which an error is thrown.
+     * @returns The number of tasks that were run.
+     */
+    runAll({maxTasks = DEFAULT_MAX_TASKS}: {maxTasks?: number} = {}): number {
+        let count = 0;
+        while (this.tasks.length) {
+            if (count >= maxTasks) {
+                throw new Error(
+                    `VirtualScheduler ran ${count} tasks without settling. Pending tasks: ` +
+                        this.tasks.map(describeTask).join(', ')
+                );
+            }
+            const task = this.tasks.shift() as VirtualTask;
+            this.now = Math.max(this.now, task.time);
+            ++count;
+            task.func();
+        }
+        return count;
+    }
+
+    assertNoPendingTasks() {
+        if (this.tasks.length) {
+            throw new Error(`Expected no pending tasks, but found: ${this.tasks.map(describeTask).join(', ')}`);
+        }
+    }
+
+    /**
+     * Makes this the default scheduler for all root components that don't specify their own scheduler.
+     */
+    install() {
+        this.previousScheduler = Component.getDefaultScheduler();
+        Component.setDefaultScheduler(this);
+    }
+
+    /**
+     * Restores the default scheduler that was used before `install` was called.
+     */
+    uninstall() {
+        if (this.previousScheduler) {
+            Component.setDefaultScheduler(this.previousScheduler);
+            this.previousScheduler = null;
+        }
+    }
+}
@@ -0,0 +1,43 @@
+import {runPendingTasks, hasPendingWork, describePendingWork} from './Component';
+
+/**
+ * Default maximum number of iterations `act` goes through before giving up.
+ */
+const DEFAULT_MAX_ITERATIONS = 100;
+
+/**
+ * Returns a promise that resolves after a macrotask, so that any deferred `SyncPromise` callbacks
+ * (which use timeouts) have a chance to run.
+ */
+function nextMacrotask(): Promise<void> {
+    return new Promise(resolve => {
+        setTimeout(resolve, 0);
+    });
+}
+
+/**
+ * Runs the given function and then waits until Reback is quiescent:
+ * Scheduled render requests (invoking the `onRequestRender` callbacks), re-renders of interrupted components,
+ * and `onDisappear` handlers are run right away, and pending promises get a chance to settle,
+ * until there are no more scheduled tasks and no more pending preparations of mounted components.
+ * @param fn Function to run first. If it returns a promise, that is waited for.
+ * @param options Additional options: the maximum number of iterations (flushing tasks and waiting for promises)
+ * before an error is thrown.
+ * @returns A promise that resolves when everything is settled, or rejects with an error listing any work that is
+ * still pending after the maximum number of iterations.
+ */
+export default async function act(fn?: () => any, {maxIterations = DEFAULT_MAX_ITERATIONS} = {}): Promise<void> {
+    if (fn) {
+        await fn();
+    }
+    for (let i = 0; i < maxIterations; ++i) {
+        runPendingTasks();
+        await nextMacrotask();
+        if (!hasPendingWork()) {
+            return;
+        }
+    }
+    throw new Error(
+        `act() did not settle after ${maxIterations} iterations. Still pending: ${describePendingWork().join(', ')}`
+    );
+}
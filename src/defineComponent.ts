@@ -0,0 +1,213 @@
+import createAbortController from './AbortController';
+import Component, {initializeState} from './Component';
+
+import type {AbortSignalLike} from './AbortController';
+import type {EffectCleanup, EffectOptions} from './Component';
+import type Context from './Context';
+
+/**
+ * Helpers passed to the `prepare` function of a function component (see `defineComponent`).
+ */
+export type FunctionComponentPrepareHelpers<
+    PrepareResult,
+    State extends {[name: string]: any},
+    ContextType extends Context
+> = {
+    /**
+     * The underlying component instance.
+     */
+    component: Component<PrepareResult, any, any, State, ContextType>;
+
+    /**
+     * The current state of the component.
+     */
+    state: State;
+
+    setState<K extends keyof State>(values: {[P in K]: State[P] | undefined}): void;
+
+    /**
+     * Returns the current value of a state attribute, initializing it if it is not set yet,
+     * and a function setting it. Initializing an attribute does not count as a state change.
+     */
+    useState<K extends keyof State>(name: K, initialValue: State[K]): [State[K], (value: State[K]) => void];
+
+    /**
+     * Reads an attribute of the component's context, which is tracked like any other context access.
+     */
+    context(name: string): any;
+
+    /**
+     * Declares an effect, see `Component#effect`.
+     */
+    effect(key: string, deps: ReadonlyArray<any>, setup: () => EffectCleanup | void, options?: EffectOptions): void;
+
+    /**
+     * Returns a memoized value, see `Component#memo`.
+     */
+    memo<T>(name: string, deps: ReadonlyArray<any>, compute: () => T): T;
+};
+
+/**
+ * Helpers passed to the render function of a function component (see `defineComponent`).
+ */
+export type FunctionComponentHelpers<
+    PrepareResult,
+    State extends {[name: string]: any},
+    ContextType extends Context
+> = FunctionComponentPrepareHelpers<PrepareResult, State, ContextType> & {
+    /**
+     * The result of the component's `prepare` function.
+     */
+    prepareResult: PrepareResult;
+};
+
+export type FunctionComponentOptions<
+    PrepareResult,
+    RenderArgs,
+    RenderResult,
+    State extends {[name: string]: any},
+    ContextType extends Context
+> = {
+    /**
+     * Name of the generated component class, used e.g. in debug output. Defaults to the name of the render function.
+     */
+    name?: string;
+
+    /**
+     * Returns the initial state of the component.
+     */
+    defaults?: () => State;
+
+    /**
+     * Prepares the component, like `doPrepare`.
+     */
+    prepare?: (helpers: FunctionComponentPrepareHelpers<PrepareResult, State, ContextType>, signal: AbortSignalLike) => any;
+
+    /**
+     * Renders the component while it is pending, like `doRenderPending`.
+     */
+    renderPending?: (arg: RenderArgs) => RenderResult;
+
+    /**
+     * Renders the component in its error state, like `doRenderError`. By default, errors are thrown.
+     */
+    renderError?: (arg: RenderArgs, error: any) => RenderResult;
+};
+
+export type FunctionComponentClass<
+    PrepareResult,
+    RenderArgs,
+    RenderResult,
+    State extends {[name: string]: any},
+    ContextType extends Context
+> = new () => Component<PrepareResult, RenderArgs, RenderResult, State, ContextType>;
+
+/**
+ * Signal passed to `prepare` functions that do not declare a signal parameter. It is never aborted.
+ */
+const unusedSignal: AbortSignalLike = createAbortController().signal;
+
+function createHelpers<PrepareResult, State extends {[name: string]: any}, ContextType extends Context>(
+    component: Component<PrepareResult, any, any, State, ContextType>
+): FunctionComponentPrepareHelpers<PrepareResult, State, ContextType> {
+    return {
+        component,
+        state: component.state,
+        setState(values) {
+            component.setState(values);
+        },
+        useState<K extends keyof State>(name: K, initialValue: State[K]): [State[K], (value: State[K]) => void] {
+            const state = component.state;
+            if (!(name in state)) {
+                // Like a default value, the initial value does not count as a change.
+                initializeState(component, {[name]: initialValue});
+            }
+            return [state[name], value => component.set(name, value)];
+        },
+        context(name) {
+            const context = component.getContext();
+            return context ? context.get(name) : undefined;
+        },
+        effect(key, deps, setup, options) {
+            component.effect(key, deps, setup, options);
+        },
+        memo(name, deps, compute) {
+            return component.memo(name, deps, compute);
+        }
+    };
+}
+
+/**
+ * Defines a component class from a render function, which receives the render argument and helpers
+ * for state, context, the prepare result, and effects.
+ * The result is a regular subclass of `Component`, so caching, context tracking, and interruption work as usual.
+ * @param render Function rendering the component, like `doRender`.
+ * @param options Further functions defining the component.
+ * @returns The component class.
+ */
+export default function defineComponent<
+    PrepareResult = void,
+    RenderArgs = void,
+    RenderResult = unknown,
+    State extends {[name: string]: any} = {},
+    ContextType extends Context = Context
+>(
+    render: (arg: RenderArgs, helpers: FunctionComponentHelpers<PrepareResult, State, ContextType>) => RenderResult,
+    options: FunctionComponentOptions<PrepareResult, RenderArgs, RenderResult, State, ContextType> = {}
+): FunctionComponentClass<PrepareResult, RenderArgs, RenderResult, State, ContextType> {
+    const {defaults, prepare, renderPending, renderError} = options;
+
+    class FunctionComponent extends Component<PrepareResult, RenderArgs, RenderResult, State, ContextType> {
+        /**
+         * Helpers passed to `prepare`, created on first use.
+         */
+        prepareHelpers: FunctionComponentPrepareHelpers<PrepareResult, State, ContextType> | null = null;
+
+        /**
+         * Helpers passed to `render`, created on first use. Their `prepareResult` is updated before each render.
+         */
+        renderHelpers: FunctionComponentHelpers<PrepareResult, State, ContextType> | null = null;
+
+        getPrepareHelpers(): FunctionComponentPrepareHelpers<PrepareResult, State, ContextType> {
+            return this.prepareHelpers || (this.prepareHelpers = createHelpers(this));
+        }
+
+        defaults(): State {
+            return defaults ? defaults() : ({} as State);
+        }
+
+        doRender(arg: RenderArgs, prepareResult: PrepareResult): RenderResult {
+            let helpers = this.renderHelpers;
+            if (helpers) {
+                helpers.prepareResult = prepareResult;
+            } else {
+                helpers = this.renderHelpers = {...this.getPrepareHelpers(), prepareResult};
+            }
+            return render(arg, helpers);
+        }
+
+        doRenderPending(arg: RenderArgs): RenderResult | void {
+            return renderPending ? renderPending(arg) : super.doRenderPending(arg);
+        }
+
+        doRenderError(arg: RenderArgs, error: any): RenderResult {
+            return renderError ? renderError(arg, error) : super.doRenderError(arg, error);
+        }
+    }
+
+    if (prepare) {
+        // Only declare the signal parameter if `prepare` uses it, so that the component does not create
+        // an abort controller for each preparation otherwise (see `Component#doPrepare`).
+        FunctionComponent.prototype.doPrepare =
+            prepare.length > 1
+                ? function (this: FunctionComponent, signal: AbortSignalLike) {
+                      return prepare(this.getPrepareHelpers(), signal);
+                  }
+                : function (this: FunctionComponent) {
+                      return prepare(this.getPrepareHelpers(), unusedSignal);
+                  };
+    }
+
+    Object.defineProperty(FunctionComponent, 'name', {value: options.name || render.name || 'FunctionComponent'});
+    return FunctionComponent;
+}
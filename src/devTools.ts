@@ -1,4 +1,6 @@
+import {now} from './globals';
 import {anyUsedAttribute} from './Context';
+import {getTimedOutPrepares as getTimedOutPrepareEntries} from './Component';
 
 import type Context from './Context';
 import type {AnyComponent} from './Component';
@@ -134,3 +136,36 @@ export function getUsedContextAttributes(component: AnyComponent) {
     });
     return result;
 }
+
+/**
+ * Returns whether the latest preparation of the given component has been aborted (and no new preparation has
+ * started since).
+ */
+export function isPrepareAborted(component: AnyComponent): boolean {
+    const uncommonData = component._reback.uncommonData;
+    const abortController = uncommonData ? uncommonData.prepareAbortController : null;
+    return !!abortController && abortController.signal.aborted;
+}
+
+/**
+ * Returns the hit and miss counts of the memoized values of the given component (see `memo`).
+ */
+export function getMemoStats(component: AnyComponent): Array<{name: string; hits: number; misses: number}> {
+    const uncommonData = component._reback.uncommonData;
+    const memos = uncommonData ? uncommonData.memos : null;
+    return memos ? Array.from(memos, ([name, {hits, misses}]) => ({name, hits, misses})) : [];
+}
+
+/**
+ * Returns the components whose preparation has timed out (see `getPrepareTimeout`) and that have not prepared again
+ * since, with the timeout and the time elapsed since the preparation started.
+ * Pending preparations that have not timed out yet are not included, even if they are about to.
+ */
+export function getTimedOutPrepares(): Array<{component: AnyComponent; timeout: number; elapsed: number}> {
+    const currentTime = now();
+    return getTimedOutPrepareEntries().map(({component, timeout, startTime}) => ({
+        component,
+        timeout,
+        elapsed: currentTime - startTime
+    }));
+}
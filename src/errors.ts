@@ -0,0 +1,146 @@
+import {d} from './util';
+
+import type {AnyComponent} from './Component';
+
+/**
+ * Error with which a component's preparation is rejected if it does not settle within the time
+ * given by the component's `getPrepareTimeout`.
+ */
+export class PrepareTimeoutError extends Error {
+    component: AnyComponent;
+
+    /**
+     * Timeout (in milliseconds) that was exceeded.
+     */
+    timeout: number;
+
+    constructor(component: AnyComponent, timeout: number) {
+        super(d`Preparation of ${component} did not settle within ${timeout} ms`);
+        this.name = 'PrepareTimeoutError';
+        this.component = component;
+        this.timeout = timeout;
+    }
+}
+
+/**
+ * Error thrown when a component is rendered using `render` outside a render pass initiated by `renderRoot`.
+ */
+export class RenderOutsidePassError extends Error {
+    component: AnyComponent;
+
+    constructor(component: AnyComponent) {
+        super(
+            d`Rendering component ${component} outside \`Component.render\`. ` +
+                'The outermost (root) component must be rendered using `Component.render(root)`.'
+        );
+        this.name = 'RenderOutsidePassError';
+        this.component = component;
+    }
+}
+
+/**
+ * Error thrown when `flushRender` is called on a component during a render pass.
+ */
+export class FlushDuringRenderError extends Error {
+    component: AnyComponent;
+
+    constructor(component: AnyComponent) {
+        super(d`Cannot flush render requests of ${component} during a render pass.`);
+        this.name = 'FlushDuringRenderError';
+        this.component = component;
+    }
+}
+
+/**
+ * Error thrown when a component's `doRenderError` throws a different error while rendering a previous error.
+ * (If `doRenderError` re-throws the error it is given, as it does by default, that error is passed on as is.)
+ */
+export class RepeatedRenderError extends Error {
+    component: AnyComponent;
+
+    /**
+     * Error that the component was rendering using `doRenderError`.
+     */
+    originalError: any;
+
+    /**
+     * Error thrown by `doRenderError`.
+     */
+    repeatedError: any;
+
+    constructor(component: AnyComponent, originalError: any, repeatedError: any) {
+        super(
+            d`Error while rendering the error of ${component}: ${describeError(repeatedError)} ` +
+                `(after: ${describeError(originalError)})`
+        );
+        this.name = 'RepeatedRenderError';
+        this.component = component;
+        this.originalError = originalError;
+        this.repeatedError = repeatedError;
+    }
+}
+
+/**
+ * Error thrown when a component keeps requesting to be rendered again while it is rendering,
+ * more often than allowed within a single render pass.
+ */
+export class RenderLoopError extends Error {
+    component: AnyComponent;
+
+    /**
+     * Number of times the component was rendered again before giving up.
+     */
+    limit: number;
+
+    constructor(component: AnyComponent, limit: number) {
+        super(d`Component ${component} requested to be rendered again more than ${limit} times in a row`);
+        this.name = 'RenderLoopError';
+        this.component = component;
+        this.limit = limit;
+    }
+}
+
+/**
+ * Error thrown from `render` when a component's `initialize` or `postInitialize` threw an error
+ * and the component's `doRenderError` re-throws that error (as it does by default).
+ * Note that `doRenderError` itself still receives the original error.
+ */
+export class InitializationError extends Error {
+    component: AnyComponent;
+
+    /**
+     * Error thrown by `initialize` or `postInitialize`.
+     */
+    originalError: any;
+
+    constructor(component: AnyComponent, originalError: any) {
+        super(d`Error while initializing ${component}: ${describeError(originalError)}`);
+        this.name = 'InitializationError';
+        this.component = component;
+        this.originalError = originalError;
+    }
+}
+
+/**
+ * Error with which a promise returned by `whenState` is rejected if the state does not satisfy the predicate
+ * within the given timeout.
+ */
+export class StateWaitTimeoutError extends Error {
+    component: AnyComponent;
+
+    /**
+     * Timeout (in milliseconds) that was exceeded.
+     */
+    timeout: number;
+
+    constructor(component: AnyComponent, timeout: number) {
+        super(d`State of ${component} did not satisfy the awaited condition within ${timeout} ms`);
+        this.name = 'StateWaitTimeoutError';
+        this.component = component;
+        this.timeout = timeout;
+    }
+}
+
+function describeError(error: any): string {
+    return error && error.message !== undefined ? error.message : String(error);
+}
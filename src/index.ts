@@ -2,9 +2,44 @@ import globals from './globals';
 import * as devTools from './devTools';
 
 export {default as Component} from './Component';
-export type {AnyComponent} from './Component';
+export type {AbortSignalLike} from './AbortController';
+export type {
+    AnyComponent,
+    ChildKey,
+    ComputedDeclaration,
+    Disposable,
+    EffectCleanup,
+    EffectOptions,
+    PrepareRetryPolicy,
+    RenderPassEndInfo,
+    RenderPassListener,
+    RenderPassStartInfo,
+    RootListener,
+    StateWatcher,
+    Subscribable,
+    UncaughtErrorHandler
+} from './Component';
 export {default as Context} from './Context';
+export {default as defineComponent} from './defineComponent';
+export type {
+    FunctionComponentClass,
+    FunctionComponentHelpers,
+    FunctionComponentOptions,
+    FunctionComponentPrepareHelpers
+} from './defineComponent';
+export {default as PendingBoundary} from './PendingBoundary';
 export {isRenderPending} from './RenderPending';
+export {
+    FlushDuringRenderError,
+    InitializationError,
+    PrepareTimeoutError,
+    RenderLoopError,
+    RenderOutsidePassError,
+    RepeatedRenderError,
+    StateWaitTimeoutError
+} from './errors';
+export {AnimationFrameScheduler, ImmediateScheduler, NEXT_FRAME, Priority} from './Scheduler';
+export type {Scheduler, PriorityLevel} from './Scheduler';
 
 // Expose the devTools functions under a global object `_r`, for easy access during debugging.
 globals._r = devTools;
@@ -0,0 +1,6 @@
+// Utilities for testing Reback components.
+// These are exposed as a separate entry point, so that they are not bundled into production code.
+
+export {default as VirtualScheduler} from './VirtualScheduler';
+export type {VirtualTaskInfo, VirtualTaskKind} from './VirtualScheduler';
+export {default as act} from './act';
@@ -11,6 +11,24 @@ export function sameValueZero(a: unknown, b: unknown, key?: any) {
     return a === b || (Number.isNaN(a) && Number.isNaN(b));
 }
 
+/**
+ * Compares two arrays of dependencies (e.g. of an effect) element-wise, using `sameValueZero`.
+ * @param a
+ * @param b
+ * @returns {boolean}
+ */
+export function sameDependencies(a: ReadonlyArray<unknown>, b: ReadonlyArray<unknown>) {
+    if (a.length !== b.length) {
+        return false;
+    }
+    for (let i = 0, l = a.length; i < l; ++i) {
+        if (!sameValueZero(a[i], b[i])) {
+            return false;
+        }
+    }
+    return true;
+}
+
 /**
  * Compares two objects shallowly.
  * @param a
@@ -133,6 +151,10 @@ export function d(strings, ...values) {
                 if (value.stack) {
                     str += `\n${value.stack}`;
                 }
+                const componentStack = (value as any).rebackComponentStack;
+                if (componentStack) {
+                    str += `\nComponent stack:\n${componentStack.map(entry => `    in ${entry}`).join('\n')}`;
+                }
                 str += ']';
             } else {
                 try {
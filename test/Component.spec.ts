@@ -1,4 +1,21 @@
-import {Component} from '../src/index';
+import {
+    AnimationFrameScheduler,
+    Component,
+    FlushDuringRenderError,
+    ImmediateScheduler,
+    InitializationError,
+    NEXT_FRAME,
+    PrepareTimeoutError,
+    Priority,
+    RenderLoopError,
+    RenderOutsidePassError,
+    RepeatedRenderError,
+    StateWaitTimeoutError
+} from '../src/index';
+import type {AnyComponent, Scheduler} from '../src/index';
+import {FunctionScheduler} from '../src/Scheduler';
+import {getMemoStats, getTimedOutPrepares, isPrepareAborted} from '../src/devTools';
+import {act, VirtualScheduler} from '../src/testing';
 import SyncPromise from 'sync-promise-js';
 
 describe('Component', () => {
@@ -1152,6 +1169,1736 @@ describe('Component', () => {
         expect(Component.render(c)).toEqual(['rendered', 'rendered']);
     });
 
+    describe('schedulers', () => {
+        class RecordingScheduler implements Scheduler {
+            tasks: Array<{func: () => void; delay: number; priority: number}> = [];
+
+            schedule(func, delay, priority) {
+                const task = {func, delay, priority};
+                this.tasks.push(task);
+                return task;
+            }
+
+            cancel(task) {
+                this.tasks = this.tasks.filter(t => t !== task);
+            }
+
+            runAll() {
+                const tasks = this.tasks;
+                this.tasks = [];
+                tasks.forEach(task => task.func());
+            }
+        }
+
+        class Counter extends Component<void, void, number, {count: number}> {
+            defaults() {
+                return {count: 0};
+            }
+
+            doRender() {
+                return this.state.count;
+            }
+        }
+
+        it('uses the scheduler given to renderRoot for render requests', () => {
+            const scheduler = new RecordingScheduler();
+            const counter = new Counter();
+            const onRequestRender = jest.fn();
+            counter.setRenderRequestCallback(onRequestRender);
+            expect(counter.renderRoot(undefined, {scheduler})).toBe(0);
+            counter.setState({count: 1});
+            counter.setState({count: 2});
+            expect(scheduler.tasks.length).toBe(1);
+            expect(scheduler.tasks[0].delay).toBe(NEXT_FRAME);
+            expect(onRequestRender).not.toHaveBeenCalled();
+            scheduler.runAll();
+            expect(onRequestRender).toHaveBeenCalledTimes(1);
+            expect(counter.renderRoot()).toBe(2);
+        });
+
+        it('renders synchronously using an ImmediateScheduler', () => {
+            const counter = new Counter();
+            const results: number[] = [];
+            counter.setRenderRequestCallback(() => results.push(counter.renderRoot()), {
+                scheduler: new ImmediateScheduler()
+            });
+            counter.renderRoot();
+            counter.setState({count: 1});
+            expect(results).toEqual([1]);
+        });
+
+        it('reschedules a pending render request when a more urgent one comes in', () => {
+            const scheduler = new RecordingScheduler();
+            const counter = new Counter();
+            counter.renderRoot(undefined, {scheduler});
+            counter.setState({count: 1}, {priority: Priority.IDLE});
+            expect(scheduler.tasks.map(task => task.priority)).toEqual([Priority.IDLE]);
+            counter.setState({count: 2});
+            expect(scheduler.tasks.map(task => task.priority)).toEqual([Priority.NORMAL]);
+            counter.forceRender({priority: Priority.USER_BLOCKING});
+            expect(scheduler.tasks.map(task => task.priority)).toEqual([Priority.USER_BLOCKING]);
+            counter.setState({count: 3}, {priority: Priority.IDLE});
+            expect(scheduler.tasks.map(task => task.priority)).toEqual([Priority.USER_BLOCKING]);
+        });
+
+        it('flushes user-blocking requests in the next microtask by default', async () => {
+            const counter = new Counter();
+            const onRequestRender = jest.fn();
+            counter.setRenderRequestCallback(onRequestRender, {scheduler: new AnimationFrameScheduler()});
+            counter.renderRoot();
+            counter.setState({count: 1}, {priority: Priority.USER_BLOCKING});
+            expect(onRequestRender).not.toHaveBeenCalled();
+            await Promise.resolve();
+            expect(onRequestRender).toHaveBeenCalledTimes(1);
+        });
+
+        it('maps priorities to delays for scheduler functions', () => {
+            const delays: Array<number | undefined> = [];
+            const scheduler = new FunctionScheduler((func, delay) => delays.push(delay), () => {});
+            scheduler.schedule(() => {}, NEXT_FRAME);
+            scheduler.schedule(() => {}, NEXT_FRAME, Priority.USER_BLOCKING);
+            scheduler.schedule(() => {}, NEXT_FRAME, Priority.IDLE);
+            scheduler.schedule(() => {}, 200, Priority.IDLE);
+            expect(delays).toEqual([NEXT_FRAME, 0, 50, 200]);
+        });
+
+        it('defers tasks scheduled during a render pass until the pass is finished', () => {
+            const events: string[] = [];
+
+            class Parent extends Component<void, boolean, any> {
+                child = new Child();
+
+                doRender(showChild) {
+                    const result = showChild ? this.child.render() : null;
+                    events.push('parent rendered');
+                    return result;
+                }
+            }
+
+            class Child extends Component {
+                onDisappear() {
+                    events.push('child disappeared');
+                }
+            }
+
+            const parent = new Parent();
+            parent.renderRoot(true, {scheduler: new ImmediateScheduler()});
+            parent.renderRoot(false);
+            expect(events).toEqual(['parent rendered', 'parent rendered', 'child disappeared']);
+        });
+    });
+
+    describe('.batch', () => {
+        class Cell extends Component<void, void, number, {value: number}> {
+            defaults() {
+                return {value: 0};
+            }
+
+            doRender() {
+                return this.state.value;
+            }
+        }
+
+        class Notebook extends Component<void, void, number[]> {
+            cells = [new Cell(), new Cell(), new Cell()];
+
+            doRender() {
+                return this.cells.map(cell => cell.render());
+            }
+        }
+
+        it('requests a single render of the root after the batch', () => {
+            const notebook = new Notebook();
+            const scheduled: Array<() => void> = [];
+            notebook.renderRoot(undefined, {
+                scheduler: {
+                    schedule(func) {
+                        scheduled.push(func);
+                    },
+                    cancel() {}
+                }
+            });
+            const onChange = jest.fn();
+            notebook.cells[0].onChange = {value: onChange};
+            const result = Component.batch(() => {
+                notebook.cells.forEach((cell, index) => cell.setState({value: index + 1}));
+                // Change handlers are called right away, but render requests are deferred.
+                expect(onChange).toHaveBeenCalledWith(1, 0);
+                expect(scheduled.length).toBe(0);
+                return 'done';
+            });
+            expect(result).toBe('done');
+            expect(scheduled.length).toBe(1);
+            expect(notebook.renderRoot()).toEqual([1, 2, 3]);
+        });
+
+        it('uses the highest priority of the batched changes', () => {
+            const notebook = new Notebook();
+            const priorities: number[] = [];
+            notebook.renderRoot(undefined, {
+                scheduler: {
+                    schedule(func, delay, priority) {
+                        priorities.push(priority as number);
+                    },
+                    cancel() {}
+                }
+            });
+            Component.batch(() => {
+                notebook.cells[0].setState({value: 1}, {priority: Priority.IDLE});
+                notebook.cells[1].setState({value: 1}, {priority: Priority.USER_BLOCKING});
+            });
+            expect(priorities).toEqual([Priority.USER_BLOCKING]);
+        });
+
+        it('does not drop render requests made by synchronous renders while flushing', () => {
+            const a = new Cell();
+            const b = new Cell();
+            const renderedA: number[] = [];
+            const scheduler = new ImmediateScheduler();
+            a.setRenderRequestCallback(() => renderedA.push(a.renderRoot()), {scheduler});
+            b.setRenderRequestCallback(
+                () => {
+                    b.renderRoot();
+                    a.setState({value: 99});
+                },
+                {scheduler}
+            );
+            a.renderRoot();
+            b.renderRoot();
+            Component.batch(() => {
+                a.setState({value: 1});
+                b.setState({value: 5});
+            });
+            expect(renderedA).toEqual([1, 99]);
+        });
+
+        it('batches state changes in event handlers', () => {
+            const notebook = new Notebook();
+            const schedule = jest.fn();
+            notebook.renderRoot(undefined, {scheduler: {schedule, cancel() {}}});
+            notebook.onEvent = {
+                reset() {
+                    notebook.cells.forEach(cell => cell.setState({value: 10}));
+                    expect(schedule).not.toHaveBeenCalled();
+                }
+            };
+            notebook.cells[2].triggerEvent('reset');
+            expect(schedule).toHaveBeenCalledTimes(1);
+            expect(notebook.renderRoot()).toEqual([10, 10, 10]);
+        });
+    });
+
+    describe('.flushPendingRenders', () => {
+        class Counter extends Component<void, void, number, {count: number}> {
+            defaults() {
+                return {count: 0};
+            }
+
+            doRender() {
+                return this.state.count;
+            }
+        }
+
+        it('fires pending render requests right away', () => {
+            const cancel = jest.fn();
+            const scheduler = {schedule: () => 'id', cancel};
+            const counters = [new Counter(), new Counter(), new Counter()];
+            const results: number[] = [];
+            counters.forEach(counter => {
+                counter.setRenderRequestCallback(() => results.push(counter.renderRoot()), {scheduler});
+                counter.renderRoot();
+            });
+            counters[0].setState({count: 1});
+            counters[2].setState({count: 3});
+            // Roots from other tests might still have pending render requests, so only look at our own roots.
+            const isOwnRoot = root => counters.indexOf(root) >= 0;
+            expect(Component.flushPendingRenders().filter(isOwnRoot)).toEqual([counters[0], counters[2]]);
+            expect(cancel).toHaveBeenCalledTimes(2);
+            expect(cancel).toHaveBeenCalledWith('id');
+            expect(results).toEqual([1, 3]);
+            expect(Component.flushPendingRenders().filter(isOwnRoot)).toEqual([]);
+        });
+
+        it('fires the pending render request of a single root', () => {
+            const counter = new Counter();
+            const onRequestRender = jest.fn();
+            counter.setRenderRequestCallback(onRequestRender, {scheduler: {schedule: () => 0, cancel() {}}});
+            counter.renderRoot();
+            expect(counter.flushRender()).toBe(false);
+            counter.setState({count: 1});
+            expect(counter.flushRender()).toBe(true);
+            expect(onRequestRender).toHaveBeenCalledTimes(1);
+            expect(counter.flushRender()).toBe(false);
+        });
+
+        it('cannot flush a render request during a render pass', () => {
+            class Flushing extends Component {
+                doRender() {
+                    return this.flushRender();
+                }
+            }
+
+            expect(() => new Flushing().renderRoot()).toThrow(FlushDuringRenderError);
+        });
+    });
+
+    describe('root registry', () => {
+        class Root extends Component {
+            doRender() {
+                return 'root';
+            }
+        }
+
+        class Parent extends Component {
+            declare child: AnyComponent;
+
+            initialize(child) {
+                this.child = child;
+            }
+
+            doRender() {
+                return this.child.render();
+            }
+        }
+
+        it('keeps track of mounted roots', () => {
+            const events: string[] = [];
+            const roots = [new Root(), new Root()];
+            const isOwnRoot = root => roots.indexOf(root) >= 0;
+            const removeListener = Component.addRootListener({
+                onMount: root => isOwnRoot(root) && events.push(`mount ${roots.indexOf(root)}`),
+                onUnmount: root => isOwnRoot(root) && events.push(`unmount ${roots.indexOf(root)}`)
+            });
+            roots[1].renderRoot();
+            roots[0].renderRoot();
+            roots[1].renderRoot();
+            expect(Component.getRoots().filter(isOwnRoot)).toEqual([roots[1], roots[0]]);
+            roots[1].unrenderRoot();
+            expect(Component.getRoots().filter(isOwnRoot)).toEqual([roots[0]]);
+            removeListener();
+            roots[0].unrenderRoot();
+            expect(Component.getRoots().filter(isOwnRoot)).toEqual([]);
+            expect(events).toEqual(['mount 1', 'mount 0', 'unmount 1']);
+        });
+
+        it('unregisters roots that are mounted into another component', () => {
+            const root = new Root();
+            root.renderRoot();
+            expect(Component.getRoots()).toContain(root);
+            const parent = new Parent(root);
+            parent.renderRoot();
+            expect(Component.getRoots()).not.toContain(root);
+            expect(Component.getRoots()).toContain(parent);
+            parent.unrenderRoot();
+        });
+
+        it('force-renders and unrenders all roots', () => {
+            const root = new Root();
+            const onRequestRender = jest.fn();
+            root.setRenderRequestCallback(onRequestRender, {scheduler: new ImmediateScheduler()});
+            root.renderRoot();
+            Component.forceRenderAllRoots();
+            expect(onRequestRender).toHaveBeenCalledTimes(1);
+            Component.unrenderAllRoots();
+            expect(root.isMounted()).toBe(false);
+            expect(Component.getRoots()).toEqual([]);
+        });
+    });
+
+    describe('.addRenderPassListener', () => {
+        it('notifies listeners about render passes', () => {
+            class Parent extends Component {
+                child = new Child();
+
+                doRender() {
+                    return this.child.render();
+                }
+            }
+
+            class Child extends Component {
+                shouldInterruptRender(generation) {
+                    return generation === 0;
+                }
+
+                doRender() {
+                    return 'rendered';
+                }
+
+                doRenderPending() {
+                    return 'pending';
+                }
+            }
+
+            const parent = new Parent();
+            const starts: any[] = [];
+            const ends: any[] = [];
+            const removeListener = Component.addRenderPassListener({
+                onStart: info => info.root === parent && starts.push(info),
+                onEnd: info => info.root === parent && ends.push(info)
+            });
+            parent.renderRoot();
+            parent.renderRoot();
+            removeListener();
+            parent.renderRoot();
+            expect(starts.map(info => info.interruptGeneration)).toEqual([0, 1]);
+            const summaries = ends.map(({isInterrupted, interruptGeneration, renderComponentCount}) => ({
+                isInterrupted,
+                interruptGeneration,
+                renderComponentCount
+            }));
+            expect(summaries).toEqual([
+                {isInterrupted: true, interruptGeneration: 0, renderComponentCount: 0},
+                {isInterrupted: false, interruptGeneration: 1, renderComponentCount: 2}
+            ]);
+            ends.forEach((info, index) => {
+                expect(info.startTime).toBe(starts[index].startTime);
+                expect(info.duration).toBeGreaterThanOrEqual(0);
+            });
+            parent.unrenderRoot();
+        });
+
+        it('reports errors thrown by listeners without breaking the render pass', () => {
+            class Root extends Component {
+                doRender() {
+                    return 'rendered';
+                }
+
+                onRendered() {
+                    events.push('rendered');
+                }
+            }
+
+            const events: string[] = [];
+            Component.setUncaughtErrorHandler(error => events.push(`reported ${error.message}`));
+            const removeRenderPassListener = Component.addRenderPassListener({
+                onStart: () => {
+                    throw new Error('onStart');
+                },
+                onEnd: () => {
+                    throw new Error('onEnd');
+                }
+            });
+            const removeRootListener = Component.addRootListener({
+                onMount: () => {
+                    throw new Error('onMount');
+                }
+            });
+            try {
+                const root = new Root();
+                expect(root.renderRoot()).toBe('rendered');
+                expect(events).toEqual(['reported onStart', 'reported onMount', 'reported onEnd', 'rendered']);
+                expect(() => new Component().render()).toThrow(RenderOutsidePassError);
+                root.unrenderRoot();
+            } finally {
+                removeRenderPassListener();
+                removeRootListener();
+                Component.setUncaughtErrorHandler(null);
+            }
+        });
+    });
+
+    describe('#onRendered', () => {
+        it('is called bottom-up after the render pass', () => {
+            const events: string[] = [];
+
+            class Parent extends Component<void, void, string, {value: number}> {
+                child = new Child();
+
+                defaults() {
+                    return {value: 1};
+                }
+
+                doRender() {
+                    events.push('render parent');
+                    return `parent ${this.state.value} (${this.child.render()})`;
+                }
+
+                onRendered(result, prevResult) {
+                    events.push(`parent rendered: ${result}, previously: ${prevResult}`);
+                }
+            }
+
+            class Child extends Component {
+                doRender() {
+                    events.push('render child');
+                    return 'child';
+                }
+
+                onRendered(result, prevResult) {
+                    events.push(`child rendered: ${result}, previously: ${prevResult}`);
+                }
+
+                onCommit(result) {
+                    events.push(`child committed: ${result}`);
+                }
+            }
+
+            const parent = new Parent();
+            parent.renderRoot();
+            expect(events).toEqual([
+                'render parent',
+                'render child',
+                'child rendered: child, previously: null',
+                'parent rendered: parent 1 (child), previously: null'
+            ]);
+            events.length = 0;
+            parent.setState({value: 2});
+            parent.renderRoot();
+            expect(events).toEqual([
+                'render parent',
+                'child committed: child',
+                'parent rendered: parent 2 (child), previously: parent 1 (child)'
+            ]);
+            parent.unrenderRoot();
+        });
+
+        it('is not called for interrupted render passes and pending components', () => {
+            const rendered: string[] = [];
+
+            class Parent extends Component {
+                child = new Child();
+                pendingChild = new PendingChild();
+
+                doRender() {
+                    return [this.child.render(), this.pendingChild.render()];
+                }
+
+                onRendered() {
+                    rendered.push('parent');
+                }
+            }
+
+            class Child extends Component {
+                shouldInterruptRender(generation) {
+                    return generation === 0;
+                }
+
+                doRender() {
+                    return 'rendered';
+                }
+
+                onRendered() {
+                    rendered.push('child');
+                }
+            }
+
+            class PendingChild extends Component {
+                doPrepare() {
+                    return new SyncPromise(() => {});
+                }
+
+                onRendered() {
+                    rendered.push('pending child');
+                }
+            }
+
+            const parent = new Parent();
+            parent.renderRoot();
+            expect(rendered).toEqual([]);
+            parent.renderRoot();
+            expect(rendered).toEqual(['child', 'parent']);
+            parent.unrenderRoot();
+        });
+
+        it('reports errors thrown by hooks and effects without affecting other components', () => {
+            const events: string[] = [];
+
+            class Parent extends Component<void, void, string[]> {
+                children = [new Child('a'), new Child('b')];
+
+                doRender() {
+                    return this.children.map(child => child.render());
+                }
+            }
+
+            class Child extends Component<string, void, string> {
+                name: string;
+
+                constructor(name: string) {
+                    super();
+                    this.name = name;
+                }
+
+                doRender() {
+                    this.effect('effect', [], () => {
+                        if (this.name === 'a') {
+                            throw new Error(`effect ${this.name}`);
+                        }
+                        events.push(`effect ${this.name}`);
+                    });
+                    return this.name;
+                }
+
+                onRendered() {
+                    if (this.name === 'a') {
+                        throw new Error(`onRendered ${this.name}`);
+                    }
+                    events.push(`onRendered ${this.name}`);
+                }
+            }
+
+            Component.setUncaughtErrorHandler((error, component) => {
+                events.push(`reported ${error.message} in ${(component as Child).name}`);
+            });
+            try {
+                const parent = new Parent();
+                expect(parent.renderRoot()).toEqual(['a', 'b']);
+                expect(events).toEqual([
+                    'reported effect a in a',
+                    'reported onRendered a in a',
+                    'effect b',
+                    'onRendered b'
+                ]);
+                parent.unrenderRoot();
+            } finally {
+                Component.setUncaughtErrorHandler(null);
+            }
+        });
+    });
+
+    describe('#effect', () => {
+        class Parent extends Component<void, void, any, {showChild: boolean}> {
+            declare child: AnyComponent;
+
+            initialize(child) {
+                this.child = child;
+            }
+
+            defaults() {
+                return {showChild: true};
+            }
+
+            doRender() {
+                return this.state.showChild ? this.child.render() : null;
+            }
+        }
+
+        it('sets up effects after commit and cleans them up when dependencies change', () => {
+            const events: string[] = [];
+
+            class Child extends Component<void, void, any, {value: number; other: number}> {
+                defaults() {
+                    return {value: 1, other: 1};
+                }
+
+                doRender() {
+                    const value = this.state.value;
+                    this.effect('listener', [value], () => {
+                        events.push(`setup ${value}`);
+                        return () => events.push(`cleanup ${value}`);
+                    });
+                    events.push('render');
+                    return value;
+                }
+            }
+
+            const child = new Child();
+            const parent = new Parent(child);
+            parent.renderRoot();
+            expect(events).toEqual(['render', 'setup 1']);
+            child.setState({other: 2});
+            parent.renderRoot();
+            expect(events).toEqual(['render', 'setup 1', 'render']);
+            child.setState({value: 2});
+            parent.renderRoot();
+            expect(events).toEqual(['render', 'setup 1', 'render', 'render', 'cleanup 1', 'setup 2']);
+            parent.unrenderRoot();
+        });
+
+        it('cleans up effects on unmount or disappear', () => {
+            const events: string[] = [];
+
+            class Child extends Component {
+                doRender() {
+                    this.effect(
+                        'until unmount',
+                        [],
+                        () => {
+                            events.push('setup until unmount');
+                            return () => events.push('cleanup until unmount');
+                        },
+                        {cleanupOn: 'unmount'}
+                    );
+                    this.effect('until disappear', [], () => {
+                        events.push('setup until disappear');
+                        return () => events.push('cleanup until disappear');
+                    });
+                    return 'child';
+                }
+            }
+
+            const scheduler = new VirtualScheduler();
+            const child = new Child();
+            const parent = new Parent(child);
+            parent.renderRoot(undefined, {scheduler});
+            expect(events).toEqual(['setup until unmount', 'setup until disappear']);
+            events.length = 0;
+            parent.setState({showChild: false});
+            parent.renderRoot();
+            expect(events).toEqual(['cleanup until unmount']);
+            scheduler.runAll();
+            expect(events).toEqual(['cleanup until unmount', 'cleanup until disappear']);
+            events.length = 0;
+            parent.setState({showChild: true});
+            parent.renderRoot();
+            expect(events).toEqual(['setup until unmount', 'setup until disappear']);
+            parent.unrenderRoot();
+        });
+
+        it('can only be called while preparing or rendering', () => {
+            const component = new Component();
+            expect(() => component.effect('effect', [], () => {})).toThrow(/while preparing or rendering/);
+        });
+    });
+
+    describe('owned resources', () => {
+        class Parent extends Component<void, void, any, {showChild: boolean}> {
+            declare child: AnyComponent;
+
+            initialize(child) {
+                this.child = child;
+            }
+
+            defaults() {
+                return {showChild: true};
+            }
+
+            doRender() {
+                return this.state.showChild ? this.child.render() : null;
+            }
+        }
+
+        function createSource() {
+            const handlers = new Set<(value: number) => void>();
+            return {
+                handlers,
+                subscribe(handler: (value: number) => void) {
+                    handlers.add(handler);
+                    return () => {
+                        handlers.delete(handler);
+                    };
+                }
+            };
+        }
+
+        it('are disposed even if an onDisappear handler throws', () => {
+            const events: string[] = [];
+
+            class Child extends Component {
+                declare name: string;
+
+                initialize(name) {
+                    this.name = name;
+                    this.ownResource(() => events.push(`disposed ${name}`));
+                }
+
+                onDisappear() {
+                    events.push(`disappeared ${this.name}`);
+                    throw new Error(`onDisappear ${this.name}`);
+                }
+            }
+
+            class Parent extends Component<void, void, any, {showChildren: boolean}> {
+                children = [new Child('a'), new Child('b')];
+
+                defaults() {
+                    return {showChildren: true};
+                }
+
+                doRender() {
+                    return this.state.showChildren ? this.children.map(child => child.render()) : null;
+                }
+            }
+
+            Component.setUncaughtErrorHandler(error => events.push(`reported ${error.message}`));
+            try {
+                const scheduler = new VirtualScheduler();
+                const parent = new Parent();
+                parent.renderRoot(undefined, {scheduler});
+                parent.setState({showChildren: false});
+                parent.renderRoot();
+                scheduler.runAll();
+                expect(events).toEqual([
+                    'disappeared a',
+                    'reported onDisappear a',
+                    'disposed a',
+                    'disappeared b',
+                    'reported onDisappear b',
+                    'disposed b'
+                ]);
+                parent.unrenderRoot();
+            } finally {
+                Component.setUncaughtErrorHandler(null);
+            }
+        });
+
+        it('are disposed when the component disappears', () => {
+            const scheduler = new VirtualScheduler();
+            const dispose = jest.fn();
+            const source = createSource();
+            const values: number[] = [];
+            const child = new Component();
+            const parent = new Parent(child);
+            parent.renderRoot(undefined, {scheduler});
+            expect(child.ownResource(dispose)).toBe(dispose);
+            child.ownResource({dispose});
+            child.ownSubscription(source, value => values.push(value));
+            source.handlers.forEach(handler => handler(1));
+            expect(values).toEqual([1]);
+            parent.setState({showChild: false});
+            parent.renderRoot();
+            expect(dispose).not.toHaveBeenCalled();
+            scheduler.runAll();
+            expect(dispose).toHaveBeenCalledTimes(2);
+            expect(source.handlers.size).toBe(0);
+            parent.unrenderRoot();
+        });
+
+        it('are disposed when the component is destroyed', () => {
+            const scheduler = new VirtualScheduler();
+            scheduler.install();
+            try {
+                const func = jest.fn();
+                const source = createSource();
+                const component = new Component();
+                component.renderRoot();
+                component.ownTimeout(func, 10);
+                const unsubscribe = component.ownSubscription(source, () => {});
+                unsubscribe();
+                expect(source.handlers.size).toBe(0);
+                component.ownSubscription(source, () => {});
+                component.destroyComponent();
+                expect(component.isMounted()).toBe(false);
+                expect(source.handlers.size).toBe(0);
+                scheduler.runAll();
+                expect(func).not.toHaveBeenCalled();
+            } finally {
+                scheduler.uninstall();
+            }
+        });
+
+        it('schedules timeouts using the scheduler and removes them once they fired', () => {
+            const scheduler = new VirtualScheduler();
+            scheduler.install();
+            try {
+                const component = new Component();
+                const calls: any[] = [];
+                component.ownTimeout(function () {
+                    calls.push(this);
+                }, 10);
+                expect(scheduler.getPendingTasks().map(task => task.time)).toEqual([10]);
+                scheduler.runAll();
+                expect(calls).toEqual([component]);
+                const cancel = component.ownTimeout(() => calls.push('cancelled'), 10);
+                cancel();
+                scheduler.assertNoPendingTasks();
+                expect(calls).toEqual([component]);
+            } finally {
+                scheduler.uninstall();
+            }
+        });
+    });
+
+    describe('prepare abort signal', () => {
+        class Loader extends Component {
+            signals: AbortSignal[] = [];
+
+            doPrepare(signal) {
+                this.signals.push(signal);
+                return new SyncPromise((resolve, reject) => {
+                    signal.addEventListener('abort', () => reject(new Error('aborted')));
+                });
+            }
+
+            doRender() {
+                return 'ready';
+            }
+
+            doRenderPending() {
+                return 'pending';
+            }
+        }
+
+        it('is aborted when the preparation is invalidated or a new preparation starts', () => {
+            const loader = new Loader();
+            expect(loader.renderRoot()).toBe('pending');
+            const first = loader.signals[0];
+            expect(first.aborted).toBe(false);
+            loader.forcePrepare();
+            expect(first.aborted).toBe(true);
+            expect(isPrepareAborted(loader)).toBe(true);
+            expect(loader.renderRoot()).toBe('pending');
+            expect(isPrepareAborted(loader)).toBe(false);
+            const second = loader.signals[1];
+            expect(second.aborted).toBe(false);
+            loader.unrenderRoot();
+            expect(second.aborted).toBe(true);
+        });
+
+        it('ignores errors of aborted preparations', () => {
+            const loader = new Loader();
+            loader.renderRoot();
+            loader.forcePrepare();
+            expect(loader.renderRoot()).toBe('pending');
+            expect(loader.signals.length).toBe(2);
+            loader.unrenderRoot();
+        });
+
+        it('can be aborted even if doPrepare does not take the signal', () => {
+            class SignalFreeLoader extends Component {
+                doPrepare() {
+                    return new SyncPromise(() => {});
+                }
+            }
+
+            const loader = new SignalFreeLoader();
+            loader.renderRoot();
+            expect(isPrepareAborted(loader)).toBe(false);
+            loader.forcePrepare();
+            expect(isPrepareAborted(loader)).toBe(true);
+            loader.unrenderRoot();
+        });
+    });
+
+    describe('#getPrepareTimeout', () => {
+        it('rejects preparations that do not settle in time', () => {
+            jest.useFakeTimers();
+            try {
+                class Slow extends Component {
+                    signal: AbortSignal | null = null;
+
+                    getPrepareTimeout() {
+                        return 100;
+                    }
+
+                    doPrepare(signal) {
+                        this.signal = signal;
+                        return new SyncPromise(() => {});
+                    }
+
+                    doRender() {
+                        return 'ready';
+                    }
+
+                    doRenderPending() {
+                        return 'pending';
+                    }
+
+                    doRenderError(arg, error) {
+                        return error;
+                    }
+                }
+
+                const slow = new Slow();
+                slow.setRenderRequestCallback(() => {}, {scheduler: new ImmediateScheduler()});
+                expect(slow.renderRoot()).toBe('pending');
+                jest.advanceTimersByTime(99);
+                expect(slow.renderRoot()).toBe('pending');
+                jest.advanceTimersByTime(1);
+                const error = slow.renderRoot();
+                expect(error).toBeInstanceOf(PrepareTimeoutError);
+                expect(error.component).toBe(slow);
+                expect(error.timeout).toBe(100);
+                expect(error.message).toMatch(/^Preparation of .*Slow.* did not settle within 100 ms/);
+                expect(slow.signal && slow.signal.aborted).toBe(true);
+                expect(getTimedOutPrepares().map(item => item.component)).toEqual([slow]);
+                slow.forcePrepare();
+                expect(getTimedOutPrepares()).toEqual([]);
+                expect(slow.renderRoot()).toBe('pending');
+                slow.unrenderRoot();
+            } finally {
+                jest.useRealTimers();
+            }
+        });
+
+        it('schedules the timeout using the scheduler of the root', async () => {
+            class Slow extends Component {
+                getPrepareTimeout() {
+                    return 100;
+                }
+
+                doPrepare() {
+                    return new SyncPromise(() => {});
+                }
+
+                doRenderPending() {
+                    return 'pending';
+                }
+
+                doRenderError(arg, error) {
+                    return error;
+                }
+            }
+
+            const scheduler = new VirtualScheduler();
+            const slow = new Slow();
+            slow.setRenderRequestCallback(() => {}, {scheduler});
+            expect(slow.renderRoot()).toBe('pending');
+            expect(scheduler.advance(99)).toBe(0);
+            expect(scheduler.advance(1)).toBe(1);
+            expect(slow.renderRoot()).toBeInstanceOf(PrepareTimeoutError);
+
+            const other = new Slow();
+            other.setRenderRequestCallback(() => other.renderRoot(), {scheduler});
+            await act(() => other.renderRoot());
+            expect(other.getRenderResult()).toBeInstanceOf(PrepareTimeoutError);
+            slow.unrenderRoot();
+            other.unrenderRoot();
+        });
+
+        it('uses the default timeout', () => {
+            expect(new Component().getPrepareTimeout()).toBe(null);
+            Component.setDefaultPrepareTimeout(1000);
+            try {
+                expect(new Component().getPrepareTimeout()).toBe(1000);
+            } finally {
+                Component.setDefaultPrepareTimeout(null);
+            }
+        });
+    });
+
+    describe('#getPrepareRetryPolicy', () => {
+        class Flaky extends Component {
+            attempts = 0;
+            failures = 2;
+
+            getPrepareRetryPolicy() {
+                return {maxAttempts: 3, initialDelay: 10, shouldRetry: error => error.message !== 'fatal'};
+            }
+
+            doPrepare() {
+                const attempt = ++this.attempts;
+                return new SyncPromise((resolve, reject) => {
+                    setTimeout(() => {
+                        if (attempt <= this.failures) {
+                            reject(new Error(this.failures > 5 ? 'fatal' : `failure ${attempt}`));
+                        } else {
+                            resolve(`attempt ${attempt}`);
+                        }
+                    }, 0);
+                });
+            }
+
+            doRender(arg, prepareResult) {
+                return prepareResult;
+            }
+
+            doRenderPending() {
+                return 'pending';
+            }
+
+            doRenderError(arg, error) {
+                return error.message;
+            }
+        }
+
+        async function renderUntilSettled(flaky: Flaky, scheduler: VirtualScheduler, retryDelays: number[] = []) {
+            const results = [flaky.renderRoot(undefined, {scheduler})];
+            for (let i = 0; i < 10; ++i) {
+                await new Promise(resolve => setTimeout(resolve, 0));
+                scheduler.getPendingTasks().forEach(task => {
+                    if (task.kind === 'timeout') {
+                        retryDelays.push(task.delay);
+                    }
+                });
+                scheduler.runAll();
+                results.push(flaky.renderRoot());
+            }
+            return results.filter((result, index) => result !== results[index - 1]);
+        }
+
+        it('retries failed preparations with backoff', async () => {
+            const scheduler = new VirtualScheduler();
+            const flaky = new Flaky();
+            flaky.setRenderRequestCallback(() => {});
+            const retryDelays: number[] = [];
+            expect(await renderUntilSettled(flaky, scheduler, retryDelays)).toEqual(['pending', 'attempt 3']);
+            expect(flaky.attempts).toBe(3);
+            expect(retryDelays).toEqual([10, 20]);
+            flaky.unrenderRoot();
+        });
+
+        it('persists the error after the last attempt', async () => {
+            const scheduler = new VirtualScheduler();
+            const flaky = new Flaky();
+            flaky.failures = 3;
+            flaky.setRenderRequestCallback(() => {});
+            expect(await renderUntilSettled(flaky, scheduler)).toEqual(['pending', 'failure 3']);
+            expect(flaky.attempts).toBe(3);
+            flaky.unrenderRoot();
+        });
+
+        it('does not retry errors rejected by the policy', async () => {
+            const scheduler = new VirtualScheduler();
+            const flaky = new Flaky();
+            flaky.failures = 10;
+            flaky.setRenderRequestCallback(() => {});
+            expect(await renderUntilSettled(flaky, scheduler)).toEqual(['pending', 'fatal']);
+            expect(flaky.attempts).toBe(1);
+            flaky.unrenderRoot();
+        });
+    });
+
+    describe('component stacks', () => {
+        class Parent extends Component {
+            declare child: AnyComponent;
+
+            initialize(child) {
+                this.child = child;
+            }
+
+            doRender() {
+                return this.child.render();
+            }
+        }
+
+        it('are attached to errors thrown while rendering', () => {
+            class Failing extends Component {
+                doRender() {
+                    throw new Error('render failed');
+                }
+            }
+
+            const failing = new Failing();
+            const parent = new Parent(failing);
+            const root = new Parent(parent);
+            let error;
+            try {
+                root.renderRoot();
+            } catch (e) {
+                error = e;
+            }
+            expect(error.message).toBe('render failed');
+            expect(error.rebackComponentStack).toEqual([
+                `Failing (${failing.cid})`,
+                `Parent (${parent.cid})`,
+                `Parent (${root.cid})`
+            ]);
+            root.unrenderRoot();
+        });
+
+        it('are attached to errors thrown during initialization', () => {
+            class Failing extends Component {
+                initialize() {
+                    throw new Error('initialize failed');
+                }
+            }
+
+            let failing;
+            class Creator extends Component {
+                doRender() {
+                    failing = new Failing();
+                    return failing.render();
+                }
+            }
+
+            const creator = new Creator();
+            expect(() => creator.renderRoot()).toThrow('initialize failed');
+            const error = failing._reback.uncommonData.renderError;
+            expect(error.rebackComponentStack).toEqual([`Failing (${failing.cid})`, `Creator (${creator.cid})`]);
+            creator.unrenderRoot();
+        });
+
+        it('are attached to asynchronous preparation errors', () => {
+            class Failing extends Component {
+                doPrepare() {
+                    return SyncPromise.reject(new Error('prepare failed')).then(null, error => {
+                        throw error;
+                    });
+                }
+
+                doRenderError(arg, error) {
+                    return error;
+                }
+            }
+
+            const failing = new Failing();
+            const parent = new Parent(failing);
+            const error = parent.renderRoot();
+            expect(error.message).toBe('prepare failed');
+            expect(error.rebackComponentStack).toEqual([`Failing (${failing.cid})`, `Parent (${parent.cid})`]);
+            parent.unrenderRoot();
+        });
+    });
+
+    describe('errors', () => {
+        it('throws a RenderOutsidePassError when rendering outside a render pass', () => {
+            const component = new Component();
+            expect(() => component.render()).toThrow(RenderOutsidePassError);
+        });
+
+        it('throws a RepeatedRenderError if doRenderError throws a different error', () => {
+            const originalError = new Error('original');
+            const repeatedError = new Error('repeated');
+
+            class Failing extends Component {
+                doRender() {
+                    throw originalError;
+                }
+
+                doRenderError() {
+                    throw repeatedError;
+                }
+            }
+
+            const component = new Failing();
+            let error;
+            try {
+                component.renderRoot();
+            } catch (e) {
+                error = e;
+            }
+            expect(error).toBeInstanceOf(RepeatedRenderError);
+            expect(error.component).toBe(component);
+            expect(error.originalError).toBe(originalError);
+            expect(error.repeatedError).toBe(repeatedError);
+            component.unrenderRoot();
+        });
+
+        it('passes on errors re-thrown by doRenderError', () => {
+            const originalError = new Error('original');
+
+            class Failing extends Component {
+                doRender() {
+                    throw originalError;
+                }
+            }
+
+            const component = new Failing();
+            expect(() => component.renderRoot()).toThrow(originalError);
+            component.unrenderRoot();
+        });
+
+        it('throws an InitializationError if an error during initialization is re-thrown', () => {
+            const originalError = new Error('original');
+
+            class Failing extends Component {
+                initialize() {
+                    throw originalError;
+                }
+            }
+
+            const component = new Failing();
+            let error;
+            try {
+                component.renderRoot();
+            } catch (e) {
+                error = e;
+            }
+            expect(error).toBeInstanceOf(InitializationError);
+            expect(error.component).toBe(component);
+            expect(error.originalError).toBe(originalError);
+            component.unrenderRoot();
+        });
+
+        it('throws a RenderLoopError if a component keeps requesting renders while rendering', () => {
+            let renderCount = 0;
+
+            class Looping extends Component {
+                doRender() {
+                    ++renderCount;
+                    this.forceRender();
+                    return null;
+                }
+            }
+
+            const component = new Looping();
+            let error;
+            try {
+                component.renderRoot();
+            } catch (e) {
+                error = e;
+            }
+            expect(error).toBeInstanceOf(RenderLoopError);
+            expect(error.component).toBe(component);
+            expect(error.limit).toBe(10);
+            expect(renderCount).toBe(11);
+            component.unrenderRoot();
+        });
+    });
+
+    describe('.setUncaughtErrorHandler', () => {
+        let reported: any[];
+
+        beforeEach(() => {
+            reported = [];
+            Component.setUncaughtErrorHandler((error, component, root) => {
+                reported.push([error, component, root]);
+            });
+        });
+
+        afterEach(() => {
+            Component.setUncaughtErrorHandler(null);
+        });
+
+        it('reports errors escaping a root render pass', () => {
+            const error = new Error('failed');
+
+            class Failing extends Component {
+                doRender() {
+                    throw error;
+                }
+            }
+
+            class Parent extends Component {
+                child = new Failing();
+
+                doRender() {
+                    return this.child.render();
+                }
+            }
+
+            const parent = new Parent();
+            expect(() => parent.renderRoot()).toThrow(error);
+            expect(reported).toEqual([[error, parent.child, parent]]);
+            parent.unrenderRoot();
+        });
+
+        it('does not report errors handled by doRenderError', () => {
+            class Failing extends Component {
+                doRender() {
+                    throw new Error('failed');
+                }
+
+                doRenderError() {
+                    return 'error';
+                }
+            }
+
+            const component = new Failing();
+            expect(component.renderRoot()).toBe('error');
+            expect(reported).toEqual([]);
+            component.unrenderRoot();
+        });
+
+        it('reports asynchronous preparation errors of unmounted components', () => {
+            const error = new Error('failed');
+            let reject;
+
+            class Failing extends Component {
+                doPrepare() {
+                    return new SyncPromise((resolve, rej) => {
+                        reject = rej;
+                    });
+                }
+            }
+
+            const component = new Failing();
+            component.renderRoot();
+            component.unrenderRoot();
+            reject(error);
+            expect(reported).toEqual([[error, component, null]]);
+        });
+
+        it('does not report abort errors of unmounted components', () => {
+            class Failing extends Component {
+                doPrepare(signal) {
+                    return new SyncPromise((resolve, reject) => {
+                        signal.addEventListener('abort', () => {
+                            const error = new Error('aborted');
+                            error.name = 'AbortError';
+                            reject(error);
+                        });
+                    });
+                }
+            }
+
+            const component = new Failing();
+            component.renderRoot();
+            component.unrenderRoot();
+            expect(reported).toEqual([]);
+        });
+    });
+
+    describe('#shouldKeepPreviousResultWhilePreparing', () => {
+        class Child extends Component<void, void, string> {
+            doRender() {
+                return 'child';
+            }
+        }
+
+        class Loader extends Component<string, void, string, {query: string}> {
+            child = new Child();
+            resolve: (value: string) => void;
+
+            defaults() {
+                return {query: 'a'};
+            }
+
+            doPrepare() {
+                return new SyncPromise(resolve => {
+                    this.resolve = resolve;
+                });
+            }
+
+            doRender(arg, prepareResult) {
+                return `${prepareResult} ${this.child.render()}`;
+            }
+
+            doRenderPending() {
+                return 'pending';
+            }
+        }
+
+        class StaleLoader extends Loader {
+            shouldKeepPreviousResultWhilePreparing() {
+                return true;
+            }
+        }
+
+        it('keeps rendering the previous result while preparing again', () => {
+            const loader = new StaleLoader();
+            expect(loader.renderRoot()).toBe('pending');
+            expect(loader.isShowingStaleResult()).toBe(false);
+            loader.resolve('a');
+            expect(loader.renderRoot()).toBe('a child');
+            loader.setState({query: 'b'});
+            expect(loader.renderRoot()).toBe('a child');
+            expect(loader.isShowingStaleResult()).toBe(true);
+            expect(loader.child.isMounted()).toBe(true);
+            expect(loader.renderRoot()).toBe('a child');
+            expect(loader.isShowingStaleResult()).toBe(true);
+            loader.resolve('b');
+            expect(loader.renderRoot()).toBe('b child');
+            expect(loader.isShowingStaleResult()).toBe(false);
+            expect(loader.child.isMounted()).toBe(true);
+            loader.unrenderRoot();
+        });
+
+        it('renders as pending while preparing again by default', () => {
+            const loader = new Loader();
+            loader.renderRoot();
+            loader.resolve('a');
+            expect(loader.renderRoot()).toBe('a child');
+            loader.setState({query: 'b'});
+            expect(loader.renderRoot()).toBe('pending');
+            expect(loader.isShowingStaleResult()).toBe(false);
+            loader.unrenderRoot();
+        });
+    });
+
+    describe('#child', () => {
+        class Item extends Component<void, void, string> {
+            declare label: string;
+
+            initialize(label) {
+                this.label = label;
+            }
+
+            doRender() {
+                return this.label;
+            }
+        }
+
+        class List extends Component<void, void, string, {items: string[]}> {
+            defaults() {
+                return {items: ['a', 'b']};
+            }
+
+            doRender() {
+                return this.state.items.map(item => this.child(Item, item, [item.toUpperCase()]).render()).join(',');
+            }
+        }
+
+        it('reuses children with the same class and key', () => {
+            const list = new List();
+            expect(list.renderRoot()).toBe('A,B');
+            const children = list.mapChildren(child => child);
+            list.setState({items: ['b', 'a', 'c']});
+            expect(list.renderRoot()).toBe('B,A,C');
+            const newChildren = list.mapChildren(child => child);
+            expect(newChildren).toContain(children[0]);
+            expect(newChildren).toContain(children[1]);
+            expect(newChildren.length).toBe(3);
+            list.unrenderRoot();
+        });
+
+        it('releases children whose keys disappeared', () => {
+            const list = new List();
+            list.renderRoot();
+            const [childA, childB] = list.mapChildren(child => child);
+            const dispose = jest.fn();
+            childA.ownResource(dispose);
+            list.setState({items: ['b']});
+            expect(list.renderRoot()).toBe('B');
+            expect(childA.isMounted()).toBe(false);
+            // Released children are destroyed at the end of the render pass.
+            expect(dispose).toHaveBeenCalledTimes(1);
+            expect(childB.isMounted()).toBe(true);
+            list.setState({items: ['a', 'b']});
+            expect(list.renderRoot()).toBe('A,B');
+            const [newChildA] = list.mapChildren(child => child);
+            expect(newChildA).not.toBe(childA);
+            list.unrenderRoot();
+        });
+
+        it('keeps children requested during preparation', () => {
+            class Parent extends Component<void, void, string, {counter: number}> {
+                defaults() {
+                    return {counter: 0};
+                }
+
+                shouldPrepare() {
+                    return false;
+                }
+
+                doPrepare() {
+                    this.child(Item, 'prepared', ['prepared']).render();
+                }
+
+                doRender() {
+                    return `${this.child(Item, 'rendered', ['rendered']).render()} ${this.state.counter}`;
+                }
+            }
+
+            const parent = new Parent();
+            expect(parent.renderRoot()).toBe('rendered 0');
+            const children = parent.mapChildren(child => child);
+            parent.setState({counter: 1});
+            expect(parent.renderRoot()).toBe('rendered 1');
+            expect(parent.mapChildren(child => child)).toEqual(children);
+            expect(children.every(child => child.isMounted())).toBe(true);
+            parent.unrenderRoot();
+        });
+
+        it('can only be used while preparing or rendering', () => {
+            const list = new List();
+            expect(() => list.child(Item, 'a')).toThrow(/while preparing or rendering/);
+        });
+    });
+
+    describe('#memo', () => {
+        it('computes values again only if their dependencies change', () => {
+            const compute = jest.fn((a, b) => a + b);
+            const component = new Component();
+            expect(component.memo('sum', [1, 2], () => compute(1, 2))).toBe(3);
+            expect(component.memo('sum', [1, 2], () => compute(1, 2))).toBe(3);
+            expect(component.memo('sum', [NaN, 2], () => compute(NaN, 2))).toBeNaN();
+            expect(component.memo('sum', [NaN, 2], () => compute(NaN, 2))).toBeNaN();
+            expect(compute).toHaveBeenCalledTimes(2);
+            expect(getMemoStats(component)).toEqual([{name: 'sum', hits: 2, misses: 2}]);
+        });
+
+        it('clears values when the prepare result is invalidated', () => {
+            const compute = jest.fn(() => ({}));
+
+            class Memoizing extends Component {
+                doRender() {
+                    return this.memo('value', [], compute);
+                }
+            }
+
+            const component = new Memoizing();
+            const value = component.renderRoot();
+            component.forceRender();
+            expect(component.renderRoot()).toBe(value);
+            component.forcePrepare();
+            expect(component.renderRoot()).not.toBe(value);
+            expect(compute).toHaveBeenCalledTimes(2);
+            component.unrenderRoot();
+            component.renderRoot();
+            expect(compute).toHaveBeenCalledTimes(3);
+            expect(getMemoStats(component)).toEqual([{name: 'value', hits: 1, misses: 3}]);
+            component.unrenderRoot();
+        });
+    });
+
+    describe('.computed', () => {
+        const computeFullName = jest.fn((first, last) => `${first} ${last}`);
+
+        class Person extends Component<void, void, string, {first: string; last: string}> {
+            static computed = {
+                fullName: ['first', 'last', computeFullName],
+                initial: ['first', first => first[0]],
+                greeting: ['fullName', fullName => `Hello, ${fullName}`]
+            };
+
+            changedAttributes: string[][] = [];
+
+            defaults() {
+                return {first: 'Ann', last: 'Smith'};
+            }
+
+            shouldPrepare(changedAttributes) {
+                this.changedAttributes.push(Array.from(changedAttributes).sort());
+                return super.shouldPrepare(changedAttributes);
+            }
+
+            doRender() {
+                return `${this.get('greeting')} (${this.get('initial')})`;
+            }
+        }
+
+        beforeEach(() => {
+            computeFullName.mockClear();
+        });
+
+        it('computes attributes lazily and only again when their inputs change', () => {
+            const person = new Person();
+            expect(computeFullName).not.toHaveBeenCalled();
+            expect(person.get('fullName')).toBe('Ann Smith');
+            expect(person.get('fullName')).toBe('Ann Smith');
+            expect(computeFullName).toHaveBeenCalledTimes(1);
+            person.setState({last: 'Jones'});
+            person.setState({last: 'Miller'});
+            expect(computeFullName).toHaveBeenCalledTimes(1);
+            expect(person.get('fullName')).toBe('Ann Miller');
+            expect(person.get('greeting')).toBe('Hello, Ann Miller');
+            expect(computeFullName).toHaveBeenCalledTimes(2);
+            expect(person.get('first')).toBe('Ann');
+        });
+
+        it('reports changed computed attributes to shouldPrepare', () => {
+            const person = new Person();
+            expect(person.renderRoot()).toBe('Hello, Ann Smith (A)');
+            person.setState({first: 'Amy'});
+            expect(person.renderRoot()).toBe('Hello, Amy Smith (A)');
+            expect(person.changedAttributes).toEqual([['first', 'fullName', 'greeting', 'initial']]);
+            person.setState({first: 'Bob'});
+            expect(person.renderRoot()).toBe('Hello, Bob Smith (B)');
+            expect(person.changedAttributes[1]).toEqual(['first', 'fullName', 'greeting', 'initial']);
+            person.unrenderRoot();
+        });
+
+        it('reports changed computed attributes to watchers', () => {
+            const person = new Person();
+            const calls: any[] = [];
+            person.watch(['greeting', 'initial'], (changed, values, oldValues) => {
+                calls.push([Array.from(changed), values, oldValues]);
+            });
+            person.setState({last: 'Jones'});
+            person.setState({first: 'Amy'});
+            expect(calls).toEqual([
+                [['greeting'], {greeting: 'Hello, Ann Jones'}, {greeting: 'Hello, Ann Smith'}],
+                [['greeting'], {greeting: 'Hello, Amy Jones'}, {greeting: 'Hello, Ann Jones'}]
+            ]);
+        });
+
+        it('throws an error for cyclic declarations', () => {
+            class Cyclic extends Component {
+                static computed = {
+                    a: ['b', b => b],
+                    b: ['c', c => c],
+                    c: ['a', a => a]
+                };
+            }
+
+            expect(() => new Cyclic()).toThrow('Computed attribute a depends on itself (a -> b -> c -> a)');
+        });
+    });
+
+    describe('#watch', () => {
+        class Point extends Component<void, void, void, {x: number; y: number; label: string}> {
+            defaults() {
+                return {x: 0, y: 0, label: ''};
+            }
+        }
+
+        it('notifies watchers once per state change with the changed attributes', () => {
+            const point = new Point();
+            const calls: any[] = [];
+            point.watch(['x', 'y'], (changed, values, oldValues) => {
+                calls.push([Array.from(changed), values, oldValues]);
+            });
+            point.setState({x: 1, y: 2, label: 'a'});
+            point.setState({label: 'b'});
+            point.setState({x: 1, y: 3});
+            expect(calls).toEqual([
+                [['x', 'y'], {x: 1, y: 2}, {x: 0, y: 0}],
+                [['y'], {y: 3}, {y: 2}]
+            ]);
+        });
+
+        it('watches all attributes and unsubscribes', () => {
+            const point = new Point();
+            const handler = jest.fn();
+            const unsubscribe = point.watch('*', handler);
+            point.set('label', 'a');
+            expect(handler).toHaveBeenCalledWith(new Set(['label']), {label: 'a'}, {label: ''});
+            unsubscribe();
+            point.set('label', 'b');
+            expect(handler).toHaveBeenCalledTimes(1);
+        });
+
+        it('notifies watchers once at the end of a batch', () => {
+            const point = new Point();
+            const handler = jest.fn();
+            point.watch('*', handler);
+            Component.batch(() => {
+                point.setState({x: 1});
+                point.setState({x: 2, y: 1});
+                point.setState({y: 0});
+                expect(handler).not.toHaveBeenCalled();
+            });
+            expect(handler).toHaveBeenCalledTimes(1);
+            expect(handler).toHaveBeenCalledWith(new Set(['x']), {x: 2}, {x: 0});
+        });
+    });
+
+    describe('#whenState', () => {
+        class Counter extends Component<void, void, void, {count: number}> {
+            defaults() {
+                return {count: 0};
+            }
+        }
+
+        it('resolves once the predicate is satisfied', () => {
+            const counter = new Counter();
+            const resolved = jest.fn();
+            counter.whenState(state => state.count >= 2).then(resolved);
+            counter.setState({count: 1});
+            expect(resolved).not.toHaveBeenCalled();
+            counter.setState({count: 2});
+            expect(resolved).toHaveBeenCalledWith({count: 2});
+            expect(counter._reback.uncommonData.predicateWaiters.size).toBe(0);
+
+            const resolvedRightAway = jest.fn();
+            counter.whenState(state => state.count === 2).then(resolvedRightAway);
+            expect(resolvedRightAway).toHaveBeenCalled();
+        });
+
+        it('rejects on timeout or abort', () => {
+            const scheduler = new VirtualScheduler();
+            scheduler.install();
+            try {
+                const counter = new Counter();
+                const rejected = jest.fn();
+                counter.whenState(state => state.count > 0, {timeout: 100}).then(null, rejected);
+                expect(scheduler.advance(99)).toBe(0);
+                expect(rejected).not.toHaveBeenCalled();
+                expect(scheduler.advance(1)).toBe(1);
+                expect(rejected).toHaveBeenCalledWith(expect.any(StateWaitTimeoutError));
+
+                counter.whenState(state => state.count > 0, {timeout: 100});
+                counter.setState({count: 1});
+                scheduler.assertNoPendingTasks();
+                counter.setState({count: 0});
+
+                const controller = new AbortController();
+                const aborted = jest.fn();
+                counter.whenState(state => state.count > 0, {signal: controller.signal}).then(null, aborted);
+                controller.abort();
+                expect(aborted).toHaveBeenCalledWith(expect.objectContaining({name: 'AbortError'}));
+                expect(counter._reback.uncommonData.predicateWaiters.size).toBe(0);
+            } finally {
+                scheduler.uninstall();
+            }
+        });
+
+        it('removes resolved attribute waiters', () => {
+            const counter = new Counter();
+            const resolved = jest.fn();
+            counter.whenAttributeHasValue('count', 1).then(resolved);
+            counter.whenAttributeHasValue('count', 2).then(resolved);
+            counter.setState({count: 1});
+            expect(resolved).toHaveBeenCalledTimes(1);
+            expect(counter._reback.uncommonData.stateWaiters.count).toHaveLength(1);
+            counter.setState({count: 2});
+            expect(resolved).toHaveBeenCalledTimes(2);
+            expect(counter._reback.uncommonData.stateWaiters).toEqual({});
+        });
+    });
+
     it('can be used to implement a (dummy) notebook/cell/box model', () => {
         class Options extends Component {
             declare values: any;
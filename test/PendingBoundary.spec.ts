@@ -0,0 +1,164 @@
+import {Component, PendingBoundary} from '../src/index';
+import {VirtualScheduler} from '../src/testing';
+import SyncPromise from 'sync-promise-js';
+
+class Loader extends Component<void, void, string> {
+    resolve: () => void;
+
+    doPrepare() {
+        return new SyncPromise(resolve => {
+            this.resolve = resolve;
+        });
+    }
+
+    doRender() {
+        return 'loaded';
+    }
+
+    doRenderPending() {
+        return 'loading';
+    }
+}
+
+class Boundary extends PendingBoundary<void, void, string> {
+    loader = new Loader();
+
+    doRenderContent() {
+        return this.loader.render();
+    }
+
+    doRenderFallback() {
+        return 'spinner';
+    }
+
+    getFallbackDelay() {
+        return 100;
+    }
+
+    getMinFallbackDuration() {
+        return 300;
+    }
+}
+
+describe('PendingBoundary', () => {
+    let results: any[];
+    let boundary: Boundary;
+
+    beforeEach(() => {
+        jest.useFakeTimers();
+        results = [];
+        boundary = new Boundary();
+        boundary.setRenderRequestCallback(() => {
+            results.push(boundary.renderRoot());
+        });
+        results.push(boundary.renderRoot());
+    });
+
+    afterEach(() => {
+        boundary.destroyComponent();
+        jest.useRealTimers();
+    });
+
+    it('does not show the fallback if the content gets ready within the delay', () => {
+        jest.advanceTimersByTime(50);
+        boundary.loader.resolve();
+        jest.advanceTimersByTime(1000);
+        expect(results).toEqual([null, 'loaded']);
+        expect(boundary.isShowingFallback()).toBe(false);
+    });
+
+    it('shows the fallback for at least its minimum duration', () => {
+        jest.advanceTimersByTime(150);
+        expect(results).toEqual([null, 'spinner']);
+        expect(boundary.isShowingFallback()).toBe(true);
+        boundary.loader.resolve();
+        jest.advanceTimersByTime(50);
+        expect(results).toEqual([null, 'spinner', 'spinner']);
+        jest.advanceTimersByTime(300);
+        expect(results).toEqual([null, 'spinner', 'spinner', 'loaded']);
+        expect(boundary.isShowingFallback()).toBe(false);
+    });
+
+    it('shows the fallback until all descendants are ready', () => {
+        jest.advanceTimersByTime(1000);
+        expect(results).toEqual([null, 'spinner']);
+        boundary.loader.resolve();
+        jest.advanceTimersByTime(50);
+        expect(results).toEqual([null, 'spinner', 'loaded']);
+    });
+
+    it('keeps showing the previous content during the delay', () => {
+        boundary.loader.resolve();
+        jest.advanceTimersByTime(50);
+        boundary.loader.forcePrepare();
+        jest.advanceTimersByTime(50);
+        expect(results).toEqual([null, 'loaded', 'loaded']);
+        jest.advanceTimersByTime(100);
+        expect(results).toEqual([null, 'loaded', 'loaded', 'spinner']);
+    });
+
+    it('does not advance its phase in render passes that are not committed', () => {
+        const scheduler = new VirtualScheduler();
+
+        class Parent extends Component<void, boolean, any> {
+            boundary = new Boundary();
+
+            doRender(shouldFail) {
+                const result = this.boundary.render();
+                if (shouldFail) {
+                    throw new Error('failed');
+                }
+                return result;
+            }
+
+            doRenderError() {
+                throw new Error('failed to render');
+            }
+        }
+
+        const parent = new Parent();
+        expect(() => parent.renderRoot(true, {scheduler})).toThrow('failed to render');
+        expect(parent.boundary.boundaryPhase).toBe('content');
+        expect(scheduler.getPendingTasks().map(task => task.delay)).toEqual([]);
+        expect(parent.renderRoot(false)).toBe(null);
+        expect(parent.boundary.boundaryPhase).toBe('delaying');
+        expect(scheduler.getPendingTasks().map(task => task.delay)).toEqual([100]);
+        parent.destroyComponent();
+    });
+
+    it('renders the fallback while required children are pending', () => {
+        class RequiringBoundary extends Boundary {
+            doRenderContent() {
+                return this.loader.renderRequired();
+            }
+        }
+
+        const scheduler = new VirtualScheduler();
+        const other = new RequiringBoundary();
+        const otherResults: any[] = [];
+        other.setRenderRequestCallback(() => otherResults.push(other.renderRoot()), {scheduler});
+        otherResults.push(other.renderRoot(undefined, {scheduler}));
+        scheduler.advance(100);
+        scheduler.runNextFrame();
+        other.loader.resolve();
+        scheduler.advance(300);
+        scheduler.runNextFrame();
+        expect(otherResults).toEqual([null, 'spinner', 'spinner', 'loaded']);
+        other.destroyComponent();
+    });
+
+    it('schedules its timers using the scheduler of the root', () => {
+        const scheduler = new VirtualScheduler();
+        const other = new Boundary();
+        const otherResults: any[] = [];
+        other.setRenderRequestCallback(() => otherResults.push(other.renderRoot()), {scheduler});
+        otherResults.push(other.renderRoot());
+        scheduler.advance(100);
+        scheduler.runNextFrame();
+        expect(otherResults).toEqual([null, 'spinner']);
+        expect(scheduler.getPendingTasks().map(task => task.delay)).toEqual([300]);
+        other.destroyComponent();
+        // Only the disappear handlers are left.
+        expect(scheduler.getPendingTasks().map(task => task.delay)).toEqual([0]);
+    });
+});
@@ -0,0 +1,129 @@
+import {Component, NEXT_FRAME, Priority} from '../src/index';
+import {VirtualScheduler} from '../src/testing';
+
+describe('VirtualScheduler', () => {
+    it('runs tasks in order of their due time when advancing', () => {
+        const scheduler = new VirtualScheduler();
+        const events: string[] = [];
+        scheduler.schedule(() => events.push('timeout 20'), 20);
+        scheduler.schedule(() => events.push('frame'), NEXT_FRAME);
+        scheduler.schedule(() => events.push('timeout 0'), 0);
+        scheduler.schedule(() => events.push('idle'), 0, Priority.IDLE);
+        expect(scheduler.getPendingTasks().map(task => task.kind)).toEqual(['timeout', 'idle', 'frame', 'timeout']);
+        expect(scheduler.advance(0)).toBe(2);
+        expect(events).toEqual(['timeout 0', 'idle']);
+        expect(scheduler.runNextFrame()).toBe(1);
+        expect(scheduler.now).toBe(16);
+        expect(scheduler.advance(4)).toBe(1);
+        expect(events).toEqual(['timeout 0', 'idle', 'frame', 'timeout 20']);
+        scheduler.assertNoPendingTasks();
+    });
+
+    it('cancels tasks', () => {
+        const scheduler = new VirtualScheduler();
+        const func = jest.fn();
+        const id = scheduler.schedule(func, 10);
+        scheduler.cancel(id);
+        expect(scheduler.hasPendingTasks()).toBe(false);
+        scheduler.runAll();
+        expect(func).not.toHaveBeenCalled();
+    });
+
+    it('reports pending tasks', () => {
+        const scheduler = new VirtualScheduler();
+        scheduler.schedule(() => {}, NEXT_FRAME);
+        expect(() => scheduler.assertNoPendingTasks()).toThrow(/frame/);
+    });
+
+    it('detects tasks that keep scheduling each other', () => {
+        const scheduler = new VirtualScheduler();
+        const reschedule = () => {
+            scheduler.schedule(reschedule, 0);
+        };
+        reschedule();
+        expect(() => scheduler.runAll({maxTasks: 10})).toThrow(/without settling/);
+    });
+
+    it('batches render requests and disappear handlers of components', () => {
+        const scheduler = new VirtualScheduler();
+        scheduler.install();
+        try {
+            const events: string[] = [];
+
+            class Parent extends Component<void, void, any, {showChild: boolean}> {
+                child = new Child();
+
+                defaults() {
+                    return {showChild: true};
+                }
+
+                doRender() {
+                    return this.state.showChild ? this.child.render() : null;
+                }
+            }
+
+            class Child extends Component {
+                onDisappear() {
+                    events.push('disappear');
+                }
+            }
+
+            const parent = new Parent();
+            parent.setRenderRequestCallback(() => {
+                events.push('render requested');
+                parent.renderRoot();
+            });
+            parent.renderRoot();
+            parent.setState({showChild: false});
+            expect(scheduler.getPendingTasks().map(task => task.kind)).toEqual(['frame']);
+            // The disappear handler is scheduled with a delay of 0 while rendering in that frame,
+            // so it is also run as part of advancing to that frame.
+            expect(scheduler.runNextFrame()).toBe(2);
+            expect(events).toEqual(['render requested', 'disappear']);
+            scheduler.assertNoPendingTasks();
+        } finally {
+            scheduler.uninstall();
+        }
+    });
+
+    it('re-renders interrupted components in the next frame', () => {
+        const scheduler = new VirtualScheduler();
+        scheduler.install();
+        try {
+            class Parent extends Component {
+                child = new Child();
+
+                doRender() {
+                    return this.child.render();
+                }
+            }
+
+            class Child extends Component {
+                shouldInterruptRender(generation) {
+                    return generation === 0;
+                }
+
+                doRender() {
+                    return 'rendered';
+                }
+
+                doRenderPending() {
+                    return 'pending';
+                }
+            }
+
+            const parent = new Parent();
+            const results: any[] = [];
+            parent.setRenderRequestCallback(() => results.push(parent.renderRoot()));
+            expect(parent.renderRoot()).toBe('pending');
+            expect(results).toEqual([]);
+            scheduler.runNextFrame();
+            expect(scheduler.getPendingTasks().map(task => task.kind)).toEqual(['frame']);
+            scheduler.runNextFrame();
+            expect(results).toEqual(['rendered']);
+            scheduler.assertNoPendingTasks();
+        } finally {
+            scheduler.uninstall();
+        }
+    });
+});
@@ -0,0 +1,90 @@
+import {Component} from '../src/index';
+import {act} from '../src/testing';
+import SyncPromise from 'sync-promise-js';
+
+describe('act', () => {
+    it('waits for preparations and render requests to settle', async () => {
+        class Parent extends Component<void, void, any> {
+            child = new Child();
+
+            doPrepare() {
+                return SyncPromise.defer().then(() => 'parent');
+            }
+
+            doRender(arg, prepareResult) {
+                return [prepareResult, this.child.render()];
+            }
+
+            doRenderPending() {
+                return 'pending';
+            }
+        }
+
+        class Child extends Component<string, void, any> {
+            doPrepare() {
+                return SyncPromise.defer().then(() => 'child');
+            }
+
+            doRender(arg, prepareResult) {
+                return prepareResult;
+            }
+
+            doRenderPending() {
+                return 'child pending';
+            }
+        }
+
+        const parent = new Parent();
+        let result;
+        parent.setRenderRequestCallback(() => {
+            result = parent.renderRoot();
+        });
+        await act(() => {
+            result = parent.renderRoot();
+            expect(result).toBe('pending');
+        });
+        expect(result).toEqual(['parent', 'child']);
+    });
+
+    it('calls onDisappear of unmounted components', async () => {
+        const onDisappear = jest.fn();
+
+        class Parent extends Component<void, void, any, {showChild: boolean}> {
+            child = new Child();
+
+            defaults() {
+                return {showChild: true};
+            }
+
+            doRender() {
+                return this.state.showChild ? this.child.render() : null;
+            }
+        }
+
+        class Child extends Component {
+            onDisappear() {
+                onDisappear();
+            }
+        }
+
+        const parent = new Parent();
+        parent.setRenderRequestCallback(() => parent.renderRoot());
+        parent.renderRoot();
+        await act(() => parent.setState({showChild: false}));
+        expect(onDisappear).toHaveBeenCalledTimes(1);
+    });
+
+    it('throws an error listing pending work if things do not settle', async () => {
+        class Stuck extends Component {
+            doPrepare() {
+                return new SyncPromise(() => {});
+            }
+        }
+
+        const stuck = new Stuck();
+        stuck.renderRoot();
+        await expect(act(undefined, {maxIterations: 3})).rejects.toThrow(/preparation of \[Stuck: c\d+\]/);
+        stuck.unrenderRoot();
+        await act();
+    });
+});
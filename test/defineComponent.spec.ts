@@ -0,0 +1,126 @@
+import {Component, Context, defineComponent} from '../src/index';
+import SyncPromise from 'sync-promise-js';
+
+describe('defineComponent', () => {
+    it('defines a component class from a render function', () => {
+        const Label = defineComponent((text: string) => `label: ${text}`);
+        const label = new Label();
+        expect(label).toBeInstanceOf(Component);
+        expect(label.renderRoot('hello')).toBe('label: hello');
+        label.unrenderRoot();
+    });
+
+    it('names the component class after the render function', () => {
+        function Icon() {
+            return 'icon';
+        }
+
+        expect(defineComponent(Icon).name).toBe('Icon');
+        expect(defineComponent(() => null, {name: 'Separator'}).name).toBe('Separator');
+    });
+
+    it('provides state helpers', () => {
+        let setCount: (value: number) => void = () => {};
+        const Counter = defineComponent<void, void, string, {count: number}>((arg, {useState}) => {
+            const [count, set] = useState('count', 1);
+            setCount = set;
+            return `count: ${count}`;
+        });
+        const counter = new Counter();
+        expect(counter.renderRoot()).toBe('count: 1');
+        setCount(2);
+        expect(counter.state.count).toBe(2);
+        expect(counter.renderRoot()).toBe('count: 2');
+        counter.unrenderRoot();
+    });
+
+    it('does not report initial state values as changes', () => {
+        let setCount: (value: number) => void = () => {};
+        const Counter = defineComponent<void, void, string, {count: number}>((arg, {useState}) => {
+            const [count, set] = useState('count', 1);
+            setCount = set;
+            return `count: ${count}`;
+        });
+        const counter = new Counter();
+        const changes: Array<[string[], {[name: string]: any}]> = [];
+        counter.watch(['count'], (changed, values) => {
+            changes.push([Array.from(changed), {...values}]);
+        });
+        expect(counter.renderRoot()).toBe('count: 1');
+        expect(changes).toEqual([]);
+        expect(counter.flushRender()).toBe(false);
+        setCount(2);
+        expect(changes).toEqual([[['count'], {count: 2}]]);
+        counter.unrenderRoot();
+    });
+
+    it('reuses its helpers across renders', () => {
+        const helpers: any[] = [];
+        const Counter = defineComponent<void, void, null, {count: number}>((arg, renderHelpers) => {
+            helpers.push(renderHelpers);
+            return null;
+        });
+        const counter = new Counter();
+        counter.renderRoot();
+        counter.setState({count: 1});
+        counter.renderRoot();
+        expect(helpers).toHaveLength(2);
+        expect(helpers[1]).toBe(helpers[0]);
+        counter.unrenderRoot();
+    });
+
+    it('only passes an abort signal to prepare functions declaring it', () => {
+        const WithoutPrepare = defineComponent(() => null);
+        const WithoutSignal = defineComponent(() => null, {prepare: helpers => null});
+        const WithSignal = defineComponent(() => null, {prepare: (helpers, signal) => signal});
+        expect(new WithoutPrepare()._reback.methods.doPrepareUsesSignal).toBe(false);
+        expect(new WithoutSignal()._reback.methods.doPrepareUsesSignal).toBe(false);
+        const withSignal = new WithSignal();
+        expect(withSignal._reback.methods.doPrepareUsesSignal).toBe(true);
+        withSignal.renderRoot();
+        expect(withSignal._reback._prepareResult.aborted).toBe(false);
+        withSignal.unrenderRoot();
+    });
+
+    it('reads and tracks context attributes', () => {
+        const Themed = defineComponent((arg, {context}) => `theme: ${context('theme')}`);
+        const themed = new Themed();
+        expect(themed.renderRoot(undefined, {context: new Context(new Map([['theme', 'dark']]))})).toBe('theme: dark');
+        expect(themed.renderRoot(undefined, {context: new Context(new Map([['theme', 'light']]))})).toBe(
+            'theme: light'
+        );
+        themed.unrenderRoot();
+    });
+
+    it('prepares the component', () => {
+        let resolve: (value: string) => void = () => {};
+        const Loader = defineComponent<string, void, string>((arg, {prepareResult}) => `loaded: ${prepareResult}`, {
+            prepare: () =>
+                new SyncPromise(r => {
+                    resolve = r;
+                }),
+            renderPending: () => 'loading'
+        });
+        const loader = new Loader();
+        expect(loader.renderRoot()).toBe('loading');
+        resolve('data');
+        expect(loader.renderRoot()).toBe('loaded: data');
+        loader.unrenderRoot();
+    });
+
+    it('declares effects', () => {
+        const events: string[] = [];
+        const WithEffect = defineComponent((arg, {effect}) => {
+            effect('log', [], () => {
+                events.push('setup');
+                return () => events.push('cleanup');
+            });
+            return null;
+        });
+        const component = new WithEffect();
+        component.renderRoot();
+        expect(events).toEqual(['setup']);
+        component.destroyComponent();
+        expect(events).toEqual(['setup', 'cleanup']);
+    });
+});
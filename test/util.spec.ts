@@ -1,4 +1,4 @@
-import {mergeSortedArrays} from '../src/util';
+import {mergeSortedArrays, sameDependencies} from '../src/util';
 
 describe('Reback utils', () => {
     describe('mergeSortedArrays', () => {
@@ -33,4 +33,13 @@ describe('Reback utils', () => {
             expect(target).toEqual([1, 2, 3]);
         });
     });
+    describe('sameDependencies', () => {
+        it('compares arrays element-wise', () => {
+            const obj = {};
+            expect(sameDependencies([1, obj, NaN], [1, obj, NaN])).toBe(true);
+            expect(sameDependencies([1, {}], [1, {}])).toBe(false);
+            expect(sameDependencies([1], [1, 2])).toBe(false);
+            expect(sameDependencies([], [])).toBe(true);
+        });
+    });
 });